@@ -12,11 +12,40 @@ export { MVTFeature } from './src/MVTFeature';
 
 // Import for internal use
 import { MVTSource } from './src/MVTSource';
+import { loadTileJSON, tileJSONToOptions } from './src/TileJSON';
+import { PMTilesArchive, createPMTilesTileLoader } from './src/PMTiles';
+import { convertMapLibreStyle, loadMapLibreStyle } from './src/MapLibreStyle';
 
 // Utilities
 export { Mercator } from './src/Mercator';
 export { ColorUtils } from './src/ColorUtils';
 export { DebugLogger, debugLogger, createLogger } from './src/DebugLogger';
+export {
+  TileLoadError,
+  TileDecodeError,
+  buildTileUrl,
+  resolveTileUrl,
+  toTileResponse,
+  createXhrTileLoader,
+} from './src/TileLoader';
+export { PersistentTileCache, withPersistentCache } from './src/PersistentTileCache';
+export { loadTileJSON, tileJSONToOptions } from './src/TileJSON';
+export { PMTilesArchive, createPMTilesTileLoader, zxyToTileId } from './src/PMTiles';
+export { Compression } from './src/Compression';
+export { ManifestUtils } from './src/ManifestUtils';
+export { StyleExpressions, StyleExpressionError } from './src/StyleExpressions';
+export { convertMapLibreStyle, loadMapLibreStyle } from './src/MapLibreStyle';
+export type { MapLibreStyleConversion } from './src/MapLibreStyle';
+export { TileAvailabilityIndex } from './src/TileAvailabilityIndex';
+export { LabelRenderer, getInteriorPoint } from './src/LabelRenderer';
+export type { LabelCandidate } from './src/LabelRenderer';
+export { CollisionIndex } from './src/CollisionIndex';
+export { IconCache, loadSpriteSheet } from './src/IconCache';
+export { FillPatterns } from './src/FillPatterns';
+export type { ResolvedIcon } from './src/IconCache';
+export type { CollisionBox } from './src/CollisionIndex';
+export { installTileWorker, TileWorkerClient } from './src/TileWorker';
+export { DecodedVectorTile, decodeVectorTile, packVectorTile } from './src/TileDecoder';
 
 // Types
 export type {
@@ -29,6 +58,17 @@ export type {
   // Style types
   FeatureStyle,
   FeatureStyleFunction,
+  FeatureStyleContext,
+  FeatureState,
+  StyleExpression,
+  ExpressionStyle,
+  LabelStyle,
+  LabelAnchor,
+  IconStyle,
+  SpriteSheet,
+  SpriteImage,
+  FillPattern,
+  HatchPattern,
   
   // Event types
   MVTMouseEvent,
@@ -37,19 +77,42 @@ export type {
   // Configuration types
   MVTSourceOptions,
   MVTLayerOptions,
+  LayerOptions,
   MVTFeatureOptions,
   
   // Manifest types
   TileManifest,
+  BoundingBoxManifest,
+  ZoomExtentManifest,
+  TileAvailabilityManifest,
   TileAvailabilitySource,
   
+  // Tile loading types
+  TileLoader,
+  TileResponse,
+  TileUrl,
+  TileUrlFunction,
+  TileErrorCallback,
+  HeadersProvider,
+  TileJSON,
+  TileJSONVectorLayer,
+  PMTilesSource,
+  PMTilesHeader,
+  PersistentCacheOptions,
+  CachedTile,
+
+  // Style document types
+  MapLibreStyle,
+  MapLibreStyleSource,
+  MapLibreStyleLayer,
+
   // Function types
   CustomDrawFunction,
   FilterFunction,
   IDExtractorFunction
 } from './src/types';
 
-export { GeometryType } from './src/types';
+export { GeometryType, PMTilesCompression } from './src/types';
 
 /**
  * Create MVTSource with sensible defaults
@@ -64,6 +127,101 @@ export function createMVTSource(map: google.maps.Map, url: string, options: Part
   });
 }
 
+/**
+ * Name the persistent cache after the tile templates or archive URL of a source,
+ * unless a namespace is given
+ */
+function withCacheNamespace(
+  options: Partial<import('./src/types').MVTSourceOptions>,
+  sourceUrls: string[],
+): Partial<import('./src/types').MVTSourceOptions> {
+  const { persistentCache } = options;
+  if (!persistentCache || sourceUrls.length === 0) {
+    return options;
+  }
+
+  const cacheOptions = persistentCache === true ? {} : persistentCache;
+  const namespace = cacheOptions.namespace || sourceUrls.join(' ');
+  return { ...options, persistentCache: { ...cacheOptions, namespace } };
+}
+
+/**
+ * Create MVTSource configured from a TileJSON document or URL
+ */
+export async function createMVTSourceFromTileJSON(
+  map: google.maps.Map,
+  tileJSON: import('./src/types').TileJSON | string,
+  options: Partial<import('./src/types').MVTSourceOptions> = {},
+): Promise<MVTSource> {
+  const headers = { ...options.xhrHeaders, ...(await options.headersProvider?.({ forceRefresh: false })) };
+  const metadata = await loadTileJSON(tileJSON, headers);
+  return new MVTSource(map, {
+    tileSize: 256,
+    cache: true,
+    debug: false,
+    ...tileJSONToOptions(metadata),
+    ...withCacheNamespace(options, metadata.tiles),
+  } as import('./src/types').MVTSourceOptions);
+}
+
+/**
+ * Create MVTSource reading tiles from a PMTiles archive, configured from its header
+ */
+export async function createMVTSourceFromPMTiles(
+  map: google.maps.Map,
+  source: import('./src/types').PMTilesSource,
+  options: Partial<import('./src/types').MVTSourceOptions> = {},
+): Promise<MVTSource> {
+  const archive = new PMTilesArchive(source, options.xhrHeaders);
+  return new MVTSource(map, {
+    url: '',
+    tileSize: 256,
+    cache: true,
+    debug: false,
+    ...(await archive.getSourceOptions()),
+    tileLoader: createPMTilesTileLoader(archive),
+    ...withCacheNamespace(options, typeof source === 'string' ? [source] : []),
+  });
+}
+
+/**
+ * Create MVTSource configured from a MapLibre / Mapbox GL style document or URL
+ *
+ * Draws the fill, line and circle layers of one vector source, the first one
+ * unless `sourceId` is given. Style properties that can't be converted are
+ * returned as warnings.
+ */
+export async function createMVTSourceFromStyle(
+  map: google.maps.Map,
+  style: import('./src/types').MapLibreStyle | string,
+  options: Partial<import('./src/types').MVTSourceOptions> = {},
+  sourceId?: string,
+): Promise<{ mvtSource: MVTSource; warnings: string[] }> {
+  const headers = { ...options.xhrHeaders, ...(await options.headersProvider?.({ forceRefresh: false })) };
+  const conversion = convertMapLibreStyle(await loadMapLibreStyle(style, headers), sourceId);
+  const { source } = conversion;
+
+  let tileJSON: import('./src/types').TileJSON;
+  if (source.tiles) {
+    tileJSON = source as import('./src/types').TileJSON;
+  } else if (source.url && !source.url.startsWith('mapbox://')) {
+    tileJSON = await loadTileJSON(source.url, headers);
+  } else {
+    throw new Error(`Unsupported tile source "${conversion.sourceId}": ${source.url ?? 'no tiles or url'}`);
+  }
+
+  const mvtSource = new MVTSource(map, {
+    tileSize: 256,
+    cache: true,
+    debug: false,
+    ...tileJSONToOptions(tileJSON),
+    visibleLayers: conversion.visibleLayers,
+    layers: conversion.layers,
+    ...withCacheNamespace(options, tileJSON.tiles),
+  } as import('./src/types').MVTSourceOptions);
+  return { mvtSource, warnings: conversion.warnings };
+}
+
 /**
  * Default style presets
  */
@@ -120,47 +278,6 @@ export const DefaultStyles = {
   }
 };
 
-/**
- * Utilities for tile availability manifests
- */
-export const ManifestUtils = {
-  createManifestFetcher: (apiUrl: string, headers?: Record<string, string>) => {
-    return async (): Promise<import('./src/types').TileManifest> => {
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json', ...headers }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch tile manifest: ${response.status} ${response.statusText}`);
-      }
-      
-      return response.json();
-    };
-  },
-
-  validateManifest: (manifest: any): manifest is import('./src/types').TileManifest => {
-    if (!manifest || typeof manifest !== 'object') return false;
-    
-    for (const [zoomLevel, xCoords] of Object.entries(manifest)) {
-      if (!/^\d+$/.test(zoomLevel) || !xCoords || typeof xCoords !== 'object') return false;
-      
-      for (const [xCoord, yRanges] of Object.entries(xCoords as any)) {
-        if (!/^\d+$/.test(xCoord) || !Array.isArray(yRanges)) return false;
-        
-        for (const yRange of yRanges) {
-          if (!Array.isArray(yRange) || yRange.length !== 2 || 
-              typeof yRange[0] !== 'number' || typeof yRange[1] !== 'number') {
-            return false;
-          }
-        }
-      }
-    }
-    
-    return true;
-  }
-};
-
 /**
  * Common utility functions
  */
@@ -0,0 +1,109 @@
+export interface CollisionBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Grid index of the boxes taken by placed labels
+ *
+ * Boxes are bucketed into square cells, so a collision test only compares
+ * against the labels sharing a cell with the tested box.
+ */
+export class CollisionIndex {
+  private _cells: Map<string, Set<string>> = new Map();
+  private _boxes: Map<string, CollisionBox[]> = new Map();
+  private _cellSize: number;
+
+  constructor(cellSize: number = 64) {
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Number of placed labels
+   */
+  get size(): number {
+    return this._boxes.size;
+  }
+
+  /**
+   * Check if a label is placed
+   */
+  has(key: string): boolean {
+    return this._boxes.has(key);
+  }
+
+  /**
+   * Check if any of the boxes overlaps a placed label
+   */
+  collides(boxes: CollisionBox[]): boolean {
+    return boxes.some((box) => {
+      let collides = false;
+      this._forEachCell(box, (cellKey) => {
+        this._cells.get(cellKey)?.forEach((key) => {
+          const placedBoxes = this._boxes.get(key) || [];
+          collides = collides || placedBoxes.some((placed) => CollisionIndex._intersects(box, placed));
+        });
+      });
+      return collides;
+    });
+  }
+
+  /**
+   * Place a label, replacing any boxes previously placed under the same key
+   */
+  insert(key: string, boxes: CollisionBox[]): void {
+    this.remove(key);
+    this._boxes.set(key, boxes);
+    boxes.forEach((box) => {
+      this._forEachCell(box, (cellKey) => {
+        const cell = this._cells.get(cellKey) || new Set<string>();
+        cell.add(key);
+        this._cells.set(cellKey, cell);
+      });
+    });
+  }
+
+  /**
+   * Remove a placed label
+   */
+  remove(key: string): void {
+    const boxes = this._boxes.get(key);
+    if (!boxes) {
+      return;
+    }
+
+    this._boxes.delete(key);
+    boxes.forEach((box) => {
+      this._forEachCell(box, (cellKey) => {
+        const cell = this._cells.get(cellKey);
+        cell?.delete(key);
+        if (cell?.size === 0) {
+          this._cells.delete(cellKey);
+        }
+      });
+    });
+  }
+
+  clear(): void {
+    this._cells.clear();
+    this._boxes.clear();
+  }
+
+  private _forEachCell(box: CollisionBox, callback: (cellKey: string) => void): void {
+    const minX = Math.floor(box.minX / this._cellSize);
+    const maxX = Math.floor(box.maxX / this._cellSize);
+    const minY = Math.floor(box.minY / this._cellSize);
+    const maxY = Math.floor(box.maxY / this._cellSize);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        callback(`${x}:${y}`);
+      }
+    }
+  }
+
+  private static _intersects(a: CollisionBox, b: CollisionBox): boolean {
+    return a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Decompression helpers built on the browser DecompressionStream API
+ */
+export class Compression {
+  /**
+   * Check if the DecompressionStream API is available
+   */
+  static isSupported(): boolean {
+    return typeof DecompressionStream !== 'undefined';
+  }
+
+  /**
+   * Check for the gzip magic bytes
+   */
+  static isGzip(data: Uint8Array): boolean {
+    return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+  }
+
+  /**
+   * Decompress gzip or deflate data
+   */
+  static async decompress(data: BufferSource, format: 'gzip' | 'deflate' = 'gzip'): Promise<ArrayBuffer> {
+    if (!this.isSupported()) {
+      throw new Error(`Cannot decompress ${format} data: DecompressionStream is not supported`);
+    }
+
+    const stream = new DecompressionStream(format);
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+
+    // Write and read concurrently so large payloads do not stall on backpressure
+    const bytes = ArrayBuffer.isView(data) ? data : new Uint8Array(data);
+    const written = writer
+      .write(bytes)
+      .then(() => writer.close())
+      .catch((error) => {
+        reader.cancel(error).catch(() => {
+          // The read side reports the same failure
+        });
+        throw error;
+      });
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const readChunks = (): Promise<void> =>
+      reader.read().then(({ done, value }) => {
+        if (done) {
+          return undefined;
+        }
+        chunks.push(value);
+        length += value.length;
+        return readChunks();
+      });
+    await Promise.all([readChunks(), written]);
+
+    const result = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result.buffer;
+  }
+}
@@ -114,8 +114,10 @@ export class ContextPool {
       context.lineWidth = style.lineWidth;
     }
 
-    context.lineCap = 'round';
-    context.lineJoin = 'round';
+    context.lineCap = style.lineCap || 'round';
+    context.lineJoin = style.lineJoin || 'round';
+    context.miterLimit = style.miterLimit ?? 10;
+    context.setLineDash(style.lineDash || []);
   }
 
   /**
@@ -127,6 +129,10 @@ export class ContextPool {
       style.fillOpacity?.toString() ?? '',
       style.strokeStyle ?? '',
       style.lineWidth?.toString() ?? '',
+      style.lineDash?.join(',') ?? '',
+      style.lineCap ?? '',
+      style.lineJoin ?? '',
+      style.miterLimit?.toString() ?? '',
       style.radius?.toString() ?? '',
     ].join('|');
   }
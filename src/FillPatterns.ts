@@ -0,0 +1,103 @@
+import { HatchPattern, TileContext } from './types';
+
+const DEFAULT_SPACING = 8;
+
+/**
+ * Fill pattern utilities for hatched and image polygon fills
+ */
+export class FillPatterns {
+  private static _hatchCanvases = new Map<string, HTMLCanvasElement>();
+  private static readonly MAX_CACHE_SIZE = 50;
+
+  /**
+   * Check if a fill pattern is a built-in hatch
+   */
+  static isHatch(pattern: unknown): pattern is HatchPattern {
+    return (
+      typeof pattern === 'object' &&
+      pattern !== null &&
+      ['diagonal', 'cross', 'dots'].includes((pattern as HatchPattern).type)
+    );
+  }
+
+  /**
+   * Draw one seamless cell of a hatch, in device pixels
+   */
+  static createHatchCanvas(hatch: HatchPattern, pixelRatio: number = 1): HTMLCanvasElement {
+    const spacing = hatch.spacing || DEFAULT_SPACING;
+    const key = [hatch.type, hatch.color, spacing, hatch.lineWidth, pixelRatio].join('|');
+    const cached = this._hatchCanvases.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const size = Math.max(1, Math.round(spacing * pixelRatio));
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+
+    const context2d = canvas.getContext('2d');
+    if (context2d) {
+      const lineWidth = (hatch.lineWidth ?? 1) * pixelRatio;
+      context2d.fillStyle = hatch.color || '#000000';
+      context2d.strokeStyle = hatch.color || '#000000';
+      context2d.lineWidth = lineWidth;
+
+      if (hatch.type === 'dots') {
+        context2d.beginPath();
+        context2d.arc(size / 2, size / 2, lineWidth, 0, Math.PI * 2);
+        context2d.fill();
+      } else {
+        // Neighbouring lines too, so lines continue across the cell corners
+        context2d.beginPath();
+        for (let offset = -size; offset <= size; offset += size) {
+          context2d.moveTo(offset, size);
+          context2d.lineTo(offset + size, 0);
+          if (hatch.type === 'cross') {
+            context2d.moveTo(offset, 0);
+            context2d.lineTo(offset + size, size);
+          }
+        }
+        context2d.stroke();
+      }
+    }
+
+    if (this._hatchCanvases.size >= this.MAX_CACHE_SIZE) {
+      this._hatchCanvases.clear();
+    }
+    this._hatchCanvases.set(key, canvas);
+    return canvas;
+  }
+
+  /**
+   * Create a repeating pattern aligned to world pixels, so it lines up across tile edges
+   *
+   * `scale` converts image pixels to CSS pixels, e.g. `1 / pixelRatio` for hatch canvases.
+   */
+  static createPattern(
+    context2d: CanvasRenderingContext2D,
+    image: HTMLImageElement | HTMLCanvasElement,
+    tileContext: TileContext,
+    scale: number = 1,
+  ): CanvasPattern | null {
+    const pattern = context2d.createPattern(image, 'repeat');
+    const width = (image instanceof HTMLImageElement ? image.naturalWidth : image.width) * scale;
+    const height = (image instanceof HTMLImageElement ? image.naturalHeight : image.height) * scale;
+    if (!pattern || !width || !height) {
+      return null;
+    }
+
+    const [, x, y] = tileContext.id.split(':').map(Number);
+    const offsetX = ((x || 0) * tileContext.tileSize) % width;
+    const offsetY = ((y || 0) * tileContext.tileSize) % height;
+    pattern.setTransform(new DOMMatrix().translate(-offsetX, -offsetY).scale(scale));
+    return pattern;
+  }
+
+  /**
+   * Clear cached hatch canvases
+   */
+  static clearCache(): void {
+    this._hatchCanvases.clear();
+  }
+}
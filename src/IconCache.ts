@@ -0,0 +1,127 @@
+import { createLogger } from './DebugLogger';
+import { IconStyle, SpriteImage, SpriteSheet } from './types';
+
+/**
+ * Loaded icon image with the rectangle to draw from it
+ */
+export interface ResolvedIcon {
+  image: HTMLImageElement;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+/**
+ * Fetch a MapLibre sprite sheet, `<url>.json` and `<url>.png`,
+ * using the `@2x` variant on high density displays
+ */
+export async function loadSpriteSheet(
+  url: string,
+  pixelRatio: number = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1,
+  headers?: Record<string, string>,
+): Promise<SpriteSheet> {
+  const base = pixelRatio >= 2 ? `${url}@2x` : url;
+  const response = await fetch(`${base}.json`, {
+    method: 'GET',
+    headers: { Accept: 'application/json', ...headers },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sprite: ${response.status} ${response.statusText}`);
+  }
+
+  const sprites: Record<string, SpriteImage> = await response.json();
+  return { image: `${base}.png`, sprites };
+}
+
+/**
+ * Loads icon images once and reports the tiles waiting for them
+ *
+ * Images are requested the first time a tile draws them; until they load
+ * the icon is skipped and the tile is handed to `onLoad` afterwards.
+ */
+export class IconCache {
+  private _images: Map<string, HTMLImageElement> = new Map();
+  private _waitingTiles: Map<HTMLImageElement, Set<string>> = new Map();
+  private _failed: WeakSet<HTMLImageElement> = new WeakSet();
+  private _onLoad: (tileIds: string[]) => void;
+  private logger = createLogger('IconCache');
+
+  constructor(onLoad: (tileIds: string[]) => void) {
+    this._onLoad = onLoad;
+  }
+
+  /**
+   * Get the image of an icon, loading it for the tile when needed
+   */
+  getIcon(icon: IconStyle, tileId: string): ResolvedIcon | undefined {
+    const source = icon.sprite ? icon.sprite.image : icon.image;
+    const image = source ? this._getImage(source, tileId) : undefined;
+    if (!image) {
+      return undefined;
+    }
+
+    if (!icon.sprite) {
+      return { image, x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight, pixelRatio: 1 };
+    }
+
+    const sprite = icon.spriteName !== undefined ? icon.sprite.sprites[icon.spriteName] : undefined;
+    return sprite ? { ...sprite, image, pixelRatio: sprite.pixelRatio || 1 } : undefined;
+  }
+
+  /**
+   * Forget loaded images and waiting tiles
+   */
+  clear(): void {
+    this._images.clear();
+    this._waitingTiles.clear();
+  }
+
+  private _getImage(source: string | HTMLImageElement, tileId: string): HTMLImageElement | undefined {
+    let image = typeof source === 'string' ? this._images.get(source) : source;
+    if (!image) {
+      image = document.createElement('img');
+      image.crossOrigin = 'anonymous';
+      this._images.set(source as string, image);
+      this._listen(image);
+      image.src = source as string;
+    }
+
+    if (image.complete && image.naturalWidth > 0) {
+      return image;
+    }
+    if (this._failed.has(image)) {
+      return undefined;
+    }
+
+    if (!this._waitingTiles.has(image)) {
+      this._listen(image);
+    }
+    this._waitingTiles.get(image)?.add(tileId);
+    return undefined;
+  }
+
+  private _listen(image: HTMLImageElement): void {
+    this._waitingTiles.set(image, new Set());
+
+    const onLoad = (): void => {
+      image.removeEventListener('error', onError);
+      const tileIds = this._waitingTiles.get(image);
+      this._waitingTiles.delete(image);
+      if (tileIds?.size) {
+        this._onLoad(Array.from(tileIds));
+      }
+    };
+    const onError = (): void => {
+      image.removeEventListener('load', onLoad);
+      this._failed.add(image);
+      this._waitingTiles.delete(image);
+      this.logger.warn('Failed to load icon:', image.src);
+    };
+
+    image.addEventListener('load', onLoad, { once: true });
+    image.addEventListener('error', onError, { once: true });
+  }
+}
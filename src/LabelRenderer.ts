@@ -0,0 +1,408 @@
+import { CollisionBox, CollisionIndex } from './CollisionIndex';
+import { GeometryType, LabelStyle, Point, TileContext } from './types';
+
+/**
+ * Feature to label in a tile, with its geometry in tile pixels
+ */
+export interface LabelCandidate {
+  key: string;
+  type: GeometryType;
+  paths: Point[][];
+  properties: Record<string, unknown>;
+  style: LabelStyle;
+}
+
+interface Glyph {
+  text: string;
+  x: number;
+  y: number;
+  angle: number;
+}
+
+interface LabelLayout {
+  glyphs: Glyph[];
+  boxes: CollisionBox[]; // Drawn extent in tile pixels, halo included
+}
+
+const DEFAULT_FONT_SIZE = 12;
+const DEFAULT_PADDING = 2;
+// Sharpest bend between two glyphs of a line label
+const MAX_GLYPH_ANGLE = Math.PI / 4;
+
+/**
+ * Signed area of a ring
+ */
+function getRingArea(ring: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j].x - ring[i].x) * (ring[j].y + ring[i].y);
+  }
+  return area / 2;
+}
+
+/**
+ * Even-odd test of a point against all rings of a polygon
+ */
+function isPointInRings(point: Point, rings: Point[][]): boolean {
+  let inside = false;
+  rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+}
+
+/**
+ * Point inside a polygon to anchor its label
+ *
+ * Uses the centroid of the largest ring when it falls inside the polygon,
+ * otherwise the middle of the widest span of the horizontal line through it.
+ */
+export function getInteriorPoint(rings: Point[][]): Point | undefined {
+  const outer = rings.reduce<Point[] | undefined>(
+    (largest, ring) => (!largest || Math.abs(getRingArea(ring)) > Math.abs(getRingArea(largest)) ? ring : largest),
+    undefined,
+  );
+  if (!outer || outer.length < 3) {
+    return undefined;
+  }
+
+  const area = getRingArea(outer);
+  let x = 0;
+  let y = 0;
+  if (area === 0) {
+    outer.forEach((point) => {
+      x += point.x / outer.length;
+      y += point.y / outer.length;
+    });
+  } else {
+    for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+      const cross = outer[j].x * outer[i].y - outer[i].x * outer[j].y;
+      x += (outer[j].x + outer[i].x) * cross;
+      y += (outer[j].y + outer[i].y) * cross;
+    }
+    x /= 6 * area;
+    y /= 6 * area;
+  }
+
+  const centroid = { x, y };
+  if (isPointInRings(centroid, rings)) {
+    return centroid;
+  }
+
+  const crossings: number[] = [];
+  rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if (a.y > y !== b.y > y) {
+        crossings.push(((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x);
+      }
+    }
+  });
+  crossings.sort((a, b) => a - b);
+
+  let best: Point | undefined;
+  let bestWidth = 0;
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    const width = crossings[i + 1] - crossings[i];
+    if (width > bestWidth) {
+      bestWidth = width;
+      best = { x: (crossings[i] + crossings[i + 1]) / 2, y };
+    }
+  }
+  return best;
+}
+
+/**
+ * Draws feature labels on tile canvases, skipping labels that would overlap
+ * labels already placed in any tile of the same zoom level or be cut off at
+ * the tile edges. Each feature is labelled once per zoom level.
+ */
+export class LabelRenderer {
+  private _indexes: Map<number, CollisionIndex> = new Map();
+  private _tileLabels: Map<string, Set<string>> = new Map();
+
+  /**
+   * Resolve the text of a label from feature properties
+   */
+  static getText(textField: string, properties: Record<string, unknown>): string {
+    const format = (value: unknown): string => (value === undefined || value === null ? '' : String(value));
+    if (textField.includes('{')) {
+      return textField.replace(/\{([^}]+)\}/g, (_match, name: string) => format(properties[name])).trim();
+    }
+    return format(properties[textField]);
+  }
+
+  /**
+   * Draw the labels of a tile, placing new ones and redrawing the ones it already placed
+   */
+  drawLabels(tileContext: TileContext, candidates: LabelCandidate[]): void {
+    const context2d = tileContext.canvas.getContext('2d');
+    if (!context2d || (candidates.length === 0 && !this._tileLabels.has(tileContext.id))) {
+      return;
+    }
+
+    const [z, x, y] = tileContext.id.split(':').map(Number);
+    const index = this._getIndex(z);
+    const { tileSize } = tileContext;
+    const previous = this._tileLabels.get(tileContext.id) || new Set<string>();
+    const placed = new Set<string>();
+
+    candidates.forEach((candidate) => {
+      const { style } = candidate;
+      const text = LabelRenderer.getText(style.textField, candidate.properties);
+      if (!text) {
+        return;
+      }
+
+      context2d.font = LabelRenderer._getFont(style);
+      const layout = this._layout(context2d, candidate, text);
+      if (!layout) {
+        return;
+      }
+
+      if (!previous.has(candidate.key)) {
+        const fits = layout.boxes.every(
+          (box) => box.minX >= 0 && box.minY >= 0 && box.maxX <= tileSize && box.maxY <= tileSize,
+        );
+        if (!fits || index.has(candidate.key)) {
+          return;
+        }
+        // Padding may reach into neighbouring tiles, keeping labels apart across tile edges
+        const padding = style.padding ?? DEFAULT_PADDING;
+        const boxes = layout.boxes.map((box) => ({
+          minX: box.minX + x * tileSize - padding,
+          minY: box.minY + y * tileSize - padding,
+          maxX: box.maxX + x * tileSize + padding,
+          maxY: box.maxY + y * tileSize + padding,
+        }));
+        if (index.collides(boxes)) {
+          return;
+        }
+        index.insert(candidate.key, boxes);
+      }
+
+      placed.add(candidate.key);
+      this._drawLayout(context2d, layout, style);
+    });
+
+    // Labels of features no longer in the tile
+    previous.forEach((key) => {
+      if (!placed.has(key)) {
+        index.remove(key);
+      }
+    });
+    this._tileLabels.set(tileContext.id, placed);
+  }
+
+  /**
+   * Free the space taken by the labels of a tile
+   */
+  releaseTile(tileId: string): void {
+    const keys = this._tileLabels.get(tileId);
+    if (!keys) {
+      return;
+    }
+
+    const z = Number(tileId.split(':')[0]);
+    const index = this._indexes.get(z);
+    keys.forEach((key) => index?.remove(key));
+    if (index?.size === 0) {
+      this._indexes.delete(z);
+    }
+    this._tileLabels.delete(tileId);
+  }
+
+  /**
+   * Forget all placed labels, e.g. before redrawing every tile with a new style
+   */
+  clear(): void {
+    this._indexes.clear();
+    this._tileLabels.clear();
+  }
+
+  private _getIndex(z: number): CollisionIndex {
+    let index = this._indexes.get(z);
+    if (!index) {
+      index = new CollisionIndex();
+      this._indexes.set(z, index);
+    }
+    return index;
+  }
+
+  private _layout(
+    context2d: CanvasRenderingContext2D,
+    candidate: LabelCandidate,
+    text: string,
+  ): LabelLayout | undefined {
+    const { type, paths, style } = candidate;
+    if (type === GeometryType.LineString) {
+      return this._layoutAlongLine(context2d, paths, text, style);
+    }
+
+    const anchor = type === GeometryType.Polygon ? getInteriorPoint(paths) : paths[0]?.[0];
+    return anchor ? this._layoutAtPoint(context2d, anchor, text, style) : undefined;
+  }
+
+  private _layoutAtPoint(
+    context2d: CanvasRenderingContext2D,
+    anchor: Point,
+    text: string,
+    style: LabelStyle,
+  ): LabelLayout {
+    const { width } = context2d.measureText(text);
+    const height = style.fontSize ?? DEFAULT_FONT_SIZE;
+    const [offsetX, offsetY] = style.offset || [0, 0];
+
+    // Center of the text
+    let x = anchor.x + offsetX;
+    let y = anchor.y + offsetY;
+    switch (style.anchor) {
+      case 'top':
+        y += height / 2;
+        break;
+      case 'bottom':
+        y -= height / 2;
+        break;
+      case 'left':
+        x += width / 2;
+        break;
+      case 'right':
+        x -= width / 2;
+        break;
+    }
+
+    const halo = style.haloWidth || 0;
+    return {
+      glyphs: [{ text, x, y, angle: 0 }],
+      boxes: [
+        {
+          minX: x - width / 2 - halo,
+          minY: y - height / 2 - halo,
+          maxX: x + width / 2 + halo,
+          maxY: y + height / 2 + halo,
+        },
+      ],
+    };
+  }
+
+  private _layoutAlongLine(
+    context2d: CanvasRenderingContext2D,
+    paths: Point[][],
+    text: string,
+    style: LabelStyle,
+  ): LabelLayout | undefined {
+    const chars = Array.from(text);
+    const widths = chars.map((char) => context2d.measureText(char).width);
+    const textWidth = widths.reduce((sum, width) => sum + width, 0);
+
+    // Longest path, with cumulative distances along it
+    let path: Point[] = [];
+    let distances: number[] = [];
+    paths.forEach((candidate) => {
+      const candidateDistances = [0];
+      for (let i = 1; i < candidate.length; i++) {
+        const dx = candidate[i].x - candidate[i - 1].x;
+        const dy = candidate[i].y - candidate[i - 1].y;
+        candidateDistances.push(candidateDistances[i - 1] + Math.sqrt(dx * dx + dy * dy));
+      }
+      if (candidateDistances[candidateDistances.length - 1] > (distances[distances.length - 1] ?? 0)) {
+        path = candidate;
+        distances = candidateDistances;
+      }
+    });
+
+    const length = distances[distances.length - 1] ?? 0;
+    if (textWidth === 0 || textWidth > length) {
+      return undefined;
+    }
+
+    const getPointAt = (distance: number): Glyph => {
+      let i = 1;
+      while (i < distances.length - 1 && distances[i] < distance) {
+        i++;
+      }
+      const a = path[i - 1];
+      const b = path[i];
+      const segment = distances[i] - distances[i - 1] || 1;
+      const t = (distance - distances[i - 1]) / segment;
+      return { text: '', x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, angle: Math.atan2(b.y - a.y, b.x - a.x) };
+    };
+
+    // Keep the text upright by reading it against the path direction when needed
+    const reverse = Math.cos(getPointAt(length / 2).angle) < 0;
+    const halfSize = (style.fontSize ?? DEFAULT_FONT_SIZE) / 2 + (style.haloWidth || 0);
+    const glyphs: Glyph[] = [];
+    let distance = (length - textWidth) / 2;
+
+    for (let i = 0; i < chars.length; i++) {
+      const center = distance + widths[i] / 2;
+      const point = getPointAt(reverse ? length - center : center);
+      const angle = reverse ? point.angle + Math.PI : point.angle;
+
+      if (glyphs.length > 0) {
+        const bend = Math.abs(Math.atan2(Math.sin(angle - glyphs[i - 1].angle), Math.cos(angle - glyphs[i - 1].angle)));
+        if (bend > MAX_GLYPH_ANGLE) {
+          return undefined;
+        }
+      }
+      glyphs.push({ text: chars[i], x: point.x, y: point.y, angle });
+      distance += widths[i];
+    }
+
+    return {
+      glyphs,
+      boxes: glyphs.map((glyph) => ({
+        minX: glyph.x - halfSize,
+        minY: glyph.y - halfSize,
+        maxX: glyph.x + halfSize,
+        maxY: glyph.y + halfSize,
+      })),
+    };
+  }
+
+  private _drawLayout(context2d: CanvasRenderingContext2D, layout: LabelLayout, style: LabelStyle): void {
+    context2d.save();
+    context2d.font = LabelRenderer._getFont(style);
+    context2d.textAlign = 'center';
+    context2d.textBaseline = 'middle';
+    // Line styles of the features drawn before are still set on the shared tile context
+    context2d.setLineDash([]);
+    context2d.lineCap = 'round';
+    context2d.lineJoin = 'round';
+    context2d.miterLimit = 10;
+
+    const drawGlyphs = (draw: (glyph: Glyph) => void): void => {
+      layout.glyphs.forEach((glyph) => {
+        context2d.save();
+        context2d.translate(glyph.x, glyph.y);
+        if (glyph.angle) {
+          context2d.rotate(glyph.angle);
+        }
+        draw(glyph);
+        context2d.restore();
+      });
+    };
+
+    // Halos first so they never cover neighbouring glyphs
+    if (style.haloColor && style.haloWidth) {
+      context2d.strokeStyle = style.haloColor;
+      context2d.lineWidth = style.haloWidth * 2;
+      drawGlyphs((glyph) => context2d.strokeText(glyph.text, 0, 0));
+    }
+    context2d.fillStyle = style.color || '#000000';
+    drawGlyphs((glyph) => context2d.fillText(glyph.text, 0, 0));
+
+    context2d.restore();
+  }
+
+  private static _getFont(style: LabelStyle): string {
+    return `${style.fontWeight ?? 'normal'} ${style.fontSize ?? DEFAULT_FONT_SIZE}px ${style.font || 'sans-serif'}`;
+  }
+}
@@ -7,8 +7,13 @@ import {
   Point,
   GeometryType,
   CustomDrawFunction,
+  IconStyle,
+  FillPattern,
 } from './types';
 import { ContextPool } from './ContextPool';
+import { FillPatterns } from './FillPatterns';
+import { Mercator } from './Mercator';
+import { ResolvedIcon } from './IconCache';
 
 /**
  * MVTFeature - Represents individual vector features with drawing and interaction capabilities
@@ -22,6 +27,7 @@ export class MVTFeature {
   public selected: boolean = false;
   public hovered: boolean = false;
   public featureId: string | number;
+  public layerName: string;
   public tiles: Record<string, TileFeatureData> = {};
   public style: FeatureStyle;
   public type: number;
@@ -40,6 +46,7 @@ export class MVTFeature {
     this.mVTSource = options.mVTSource;
     this.selected = options.selected;
     this.featureId = options.featureId;
+    this.layerName = options.layerName || '';
     this.style = options.style;
     this.type = options.vectorTileFeature.type;
     this.properties = options.vectorTileFeature.properties;
@@ -67,6 +74,19 @@ export class MVTFeature {
     this._invalidatePath2DCache();
   }
 
+  /**
+   * Remove the geometry of a tile that is no longer loaded
+   */
+  removeTileFeature(tileId: string): void {
+    if (!this.tiles[tileId]) {
+      return;
+    }
+
+    delete this.tiles[tileId];
+    this._releaseAllContexts();
+    this._cachedPaths.delete(tileId);
+  }
+
   /**
    * Get all tiles associated with this feature
    */
@@ -135,7 +155,9 @@ export class MVTFeature {
     const tile = this.tiles[tileContext.id];
     if (!tile) return;
 
-    const currentStyle = this.mVTSource.getStyleForFeature?.(tile.vectorTileFeature, this.featureId) || this.style;
+    const currentStyle =
+      this.mVTSource.getStyleForFeature?.(tile.vectorTileFeature, this.featureId, this.layerName, tileContext.zoom) ||
+      this.style;
 
     const isReplaced = this.selected && this.mVTSource.isFeatureReplaced?.(this.featureId);
 
@@ -216,8 +238,10 @@ export class MVTFeature {
     if (style.lineWidth !== undefined) {
       context.lineWidth = style.lineWidth;
     }
-    context.lineCap = 'round';
-    context.lineJoin = 'round';
+    context.lineCap = style.lineCap || 'round';
+    context.lineJoin = style.lineJoin || 'round';
+    context.miterLimit = style.miterLimit ?? 10;
+    context.setLineDash(style.lineDash || []);
   }
 
   /**
@@ -253,6 +277,13 @@ export class MVTFeature {
     }
     const coordinates = geometry[0][0];
     const point = this._getPoint(coordinates, tileContext, tile.divisor);
+    tile.iconBox = undefined;
+
+    if (_style.icon) {
+      this._drawIcon(tileContext, tile, _style.icon, point, context2d);
+      return;
+    }
+
     const radius = _style.radius || 3;
 
     context2d.beginPath();
@@ -262,6 +293,78 @@ export class MVTFeature {
     context2d.stroke();
   }
 
+  /**
+   * Draw the icon of a point, skipped until its image is loaded
+   */
+  private _drawIcon(
+    tileContext: TileContext,
+    tile: TileFeatureData,
+    iconStyle: IconStyle,
+    point: Point,
+    context2d: CanvasRenderingContext2D,
+  ): void {
+    const icon: ResolvedIcon | undefined = this.mVTSource.getIcon?.(iconStyle, tileContext.id);
+    if (!icon) {
+      return;
+    }
+
+    const size = iconStyle.size ?? 1;
+    const width = (icon.width / icon.pixelRatio) * size;
+    const height = (icon.height / icon.pixelRatio) * size;
+
+    // Offset of the icon center from the point
+    let x = 0;
+    let y = 0;
+    switch (iconStyle.anchor) {
+      case 'top':
+        y = height / 2;
+        break;
+      case 'bottom':
+        y = -height / 2;
+        break;
+      case 'left':
+        x = width / 2;
+        break;
+      case 'right':
+        x = -width / 2;
+        break;
+    }
+
+    let rotation = iconStyle.rotation || 0;
+    if (iconStyle.rotationProperty) {
+      rotation += Number(this.properties[iconStyle.rotationProperty]) || 0;
+    }
+    const angle = (rotation * Math.PI) / 180;
+    tile.iconBox = {
+      x: point.x,
+      y: point.y,
+      minX: x - width / 2,
+      minY: y - height / 2,
+      maxX: x + width / 2,
+      maxY: y + height / 2,
+      angle,
+    };
+
+    context2d.save();
+    context2d.globalAlpha = iconStyle.opacity ?? 1;
+    context2d.translate(point.x, point.y);
+    if (angle) {
+      context2d.rotate(angle);
+    }
+    context2d.drawImage(
+      icon.image,
+      icon.x,
+      icon.y,
+      icon.width,
+      icon.height,
+      x - width / 2,
+      y - height / 2,
+      width,
+      height,
+    );
+    context2d.restore();
+  }
+
   /**
    * Draw line string with cached paths
    */
@@ -271,12 +374,44 @@ export class MVTFeature {
     _style: FeatureStyle,
     context2d: CanvasRenderingContext2D,
   ): void {
+    if (_style.lineOffset) {
+      context2d.stroke(this._getOffsetPath2D(tileContext, tile, _style.lineOffset));
+      return;
+    }
+
     const paths2d = this._getOptimizedPaths2D(tileContext, tile);
     if (paths2d) {
       context2d.stroke(paths2d);
     }
   }
 
+  /**
+   * Get the cached path parallel to the line, for offset styles
+   */
+  private _getOffsetPath2D(tileContext: TileContext, tile: TileFeatureData, offset: number): Path2D {
+    if (tile.offsetPaths2d?.offset !== offset) {
+      tile.offsetPaths2d = { offset, paths2d: this._createOffsetPath2D(tileContext, offset) };
+    }
+    return tile.offsetPaths2d.paths2d;
+  }
+
+  /**
+   * Create a path parallel to the line, for offset styles
+   */
+  private _createOffsetPath2D(tileContext: TileContext, offset: number): Path2D {
+    const paths2d = new Path2D();
+    this.getPaths(tileContext).forEach((path) => {
+      Mercator.offsetLine(path, offset).forEach((point, i) => {
+        if (i === 0) {
+          paths2d.moveTo(point.x, point.y);
+        } else {
+          paths2d.lineTo(point.x, point.y);
+        }
+      });
+    });
+    return paths2d;
+  }
+
   /**
    * Draw polygon with cached paths
    */
@@ -293,12 +428,44 @@ export class MVTFeature {
       if (style.fillStyle) {
         context2d.fill(paths2d);
       }
+      if (style.fillPattern) {
+        this._fillPattern(tileContext, style.fillPattern, paths2d, context2d);
+      }
       if (style.strokeStyle) {
         context2d.stroke(paths2d);
       }
     }
   }
 
+  /**
+   * Fill a polygon with a hatch or image pattern, skipped until its image is loaded
+   */
+  private _fillPattern(
+    tileContext: TileContext,
+    fillPattern: FillPattern,
+    paths2d: Path2D,
+    context2d: CanvasRenderingContext2D,
+  ): void {
+    let pattern: CanvasPattern | null = null;
+    if (FillPatterns.isHatch(fillPattern)) {
+      const pixelRatio = tileContext.canvas.width / tileContext.tileSize;
+      const hatch = FillPatterns.createHatchCanvas(fillPattern, pixelRatio);
+      pattern = FillPatterns.createPattern(context2d, hatch, tileContext, 1 / pixelRatio);
+    } else if (fillPattern instanceof HTMLCanvasElement) {
+      pattern = FillPatterns.createPattern(context2d, fillPattern, tileContext);
+    } else {
+      const icon: ResolvedIcon | undefined = this.mVTSource.getIcon?.({ image: fillPattern }, tileContext.id);
+      pattern = icon ? FillPatterns.createPattern(context2d, icon.image, tileContext) : null;
+    }
+
+    if (pattern) {
+      context2d.save();
+      context2d.fillStyle = pattern;
+      context2d.fill(paths2d);
+      context2d.restore();
+    }
+  }
+
   private _createGeometryHash(coordinates: any[]): string {
     if (!coordinates || coordinates.length === 0) return 'empty';
     
@@ -324,6 +491,7 @@ export class MVTFeature {
     
     Object.values(this.tiles).forEach(tile => {
       tile.paths2d = null;
+      tile.offsetPaths2d = undefined;
     });
   }
 
@@ -470,8 +638,36 @@ export class MVTFeature {
     const paths2d = this._getOptimizedPaths2D(tileContext, tile);
     if (!paths2d) return false;
 
+    // isPointInPath ignores the canvas transform, test in device pixels
+    const pixelRatio = tileContext.canvas.width / tileContext.tileSize;
     const context2d = tileContext.canvas.getContext('2d')!;
-    return context2d.isPointInPath(paths2d, point.x, point.y);
+    return context2d.isPointInPath(paths2d, point.x * pixelRatio, point.y * pixelRatio);
+  }
+
+  /**
+   * Check if a point is inside the icon drawn for this feature in a tile
+   */
+  isPointInIcon(point: Point, tileContext: TileContext): boolean {
+    const box = this.getTile(tileContext)?.iconBox;
+    if (!box) {
+      return false;
+    }
+
+    // Rotate the point back into the frame of the icon
+    const dx = point.x - box.x;
+    const dy = point.y - box.y;
+    const cos = Math.cos(-box.angle);
+    const sin = Math.sin(-box.angle);
+    const x = dx * cos - dy * sin;
+    const y = dx * sin + dy * cos;
+    return x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY;
+  }
+
+  /**
+   * Check if an icon was drawn for this feature in a tile
+   */
+  hasIcon(tileContext: TileContext): boolean {
+    return !!this.getTile(tileContext)?.iconBox;
   }
 
   /**
@@ -483,6 +679,20 @@ export class MVTFeature {
     }
   }
 
+  /**
+   * Release caches once the feature has no loaded tiles left,
+   * without clearing its selection state in the source
+   */
+  release(): void {
+    this._releaseAllContexts();
+    this._cachedPaths.clear();
+    this._invalidatePath2DCache();
+
+    if (this.mVTSource.releaseFeature) {
+      this.mVTSource.releaseFeature(this);
+    }
+  }
+
   /**
    * Cleanup method to clear caches
    */
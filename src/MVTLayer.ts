@@ -9,6 +9,7 @@ import {
   CanvasAndFeatures,
   FeatureStyle,
   FeatureStyleFunction,
+  FeatureState,
   FilterFunction,
   GeometryType,
 } from './types';
@@ -26,6 +27,7 @@ export class MVTLayer {
 
   private _lineClickTolerance = 2;
   private _getIDForLayerFeature: (feature: VectorTileFeature) => string | number;
+  private _getFeatureState: (featureId: string | number) => FeatureState;
   private _filter: FilterFunction | false;
   private _customDraw: ((tileContext: TileContext, tile: any, style: FeatureStyle, feature: any) => void) | false;
   private _canvasAndMVTFeatures: Record<string, CanvasAndFeatures> = {};
@@ -36,6 +38,7 @@ export class MVTLayer {
 
   constructor(options: MVTLayerOptions) {
     this._getIDForLayerFeature = options.getIDForLayerFeature;
+    this._getFeatureState = options.getFeatureState || ((): FeatureState => ({}));
     this.style = options.style;
     this.name = options.name;
     this._filter = options.filter || false;
@@ -50,6 +53,7 @@ export class MVTLayer {
     vectorTileFeatures: VectorTileFeature[],
     tileContext: TileContext,
   ): void {
+    const previousFeatures = (this._canvasAndMVTFeatures[tileContext.id]?.features || []) as MVTFeature[];
     this._canvasAndMVTFeatures[tileContext.id] = {
       canvas: tileContext.canvas,
       features: [],
@@ -57,6 +61,7 @@ export class MVTLayer {
 
     if (!vectorTileFeatures || !Array.isArray(vectorTileFeatures)) {
       this.logger.warn('No vector tile features found for layer:', this.name);
+      this._releaseTileFeatures(previousFeatures, tileContext.id);
       this.drawTile(tileContext);
       return;
     }
@@ -72,6 +77,14 @@ export class MVTLayer {
     }
 
     this._canvasAndMVTFeatures[tileContext.id].features = features;
+
+    // Features dropped from refreshed tile data
+    const currentFeatures = new Set(features);
+    this._releaseTileFeatures(
+      previousFeatures.filter((feature) => !currentFeatures.has(feature)),
+      tileContext.id,
+    );
+
     this.drawTile(tileContext);
   }
 
@@ -85,7 +98,7 @@ export class MVTLayer {
     index: number,
   ): MVTFeature | null {
     if (this._filter && typeof this._filter === 'function') {
-      if (this._filter(vectorTileFeature, tileContext) === false) {
+      if (this._filter(vectorTileFeature, tileContext, this.name) === false) {
         return null;
       }
     }
@@ -97,7 +110,10 @@ export class MVTLayer {
     const shouldBeHovered = mVTSource.isFeatureHovered?.(featureId) || false;
 
     if (!mVTFeature) {
-      const baseStyle = this._getFeatureStyle(vectorTileFeature);
+      const baseStyle = this._getFeatureStyle(vectorTileFeature, featureId, tileContext.zoom, {
+        selected: shouldBeSelected,
+        hovered: shouldBeHovered,
+      });
 
       const options = {
         mVTSource,
@@ -107,14 +123,19 @@ export class MVTLayer {
         selected: shouldBeSelected,
         featureId,
         customDraw: this._customDraw,
+        layerName: this.name,
       };
 
       mVTFeature = new MVTFeature(options);
       mVTFeature.hovered = shouldBeHovered;
       this._mVTFeatures[featureId] = mVTFeature;
     } else {
-      const baseStyle = this._getFeatureStyle(vectorTileFeature);
+      const baseStyle = this._getFeatureStyle(vectorTileFeature, featureId, tileContext.zoom, {
+        selected: shouldBeSelected,
+        hovered: shouldBeHovered,
+      });
       mVTFeature.setStyle(baseStyle);
+      mVTFeature.properties = vectorTileFeature.properties;
       mVTFeature.addTileFeature(vectorTileFeature, tileContext);
 
       if (mVTFeature.selected !== shouldBeSelected) {
@@ -157,9 +178,20 @@ export class MVTLayer {
   /**
    * Get computed style for a feature
    */
-  private _getFeatureStyle(feature: VectorTileFeature): FeatureStyle {
+  private _getFeatureStyle(
+    feature: VectorTileFeature,
+    featureId: string | number,
+    zoom: number,
+    state: { selected: boolean; hovered: boolean },
+  ): FeatureStyle {
     if (typeof this.style === 'function') {
-      return this.style(feature);
+      return this.style(feature, {
+        feature,
+        layerName: this.name,
+        zoom,
+        ...state,
+        featureState: this._getFeatureState(featureId),
+      });
     }
     return this.style as FeatureStyle;
   }
@@ -174,7 +206,12 @@ export class MVTLayer {
       const firstTileId = Object.keys(mVTFeature.tiles)[0];
       if (firstTileId && mVTFeature.tiles[firstTileId]) {
         const vectorTileFeature = mVTFeature.tiles[firstTileId].vectorTileFeature;
-        const newStyle = this._getFeatureStyle(vectorTileFeature);
+        // Tile IDs start with the zoom level
+        const zoom = parseInt(firstTileId.split(':')[0]);
+        const newStyle = this._getFeatureStyle(vectorTileFeature, mVTFeature.featureId, zoom, {
+          selected: mVTFeature.selected,
+          hovered: mVTFeature.hovered,
+        });
 
         const wasSelected = mVTFeature.selected;
         const wasHovered = mVTFeature.hovered;
@@ -285,9 +322,18 @@ export class MVTLayer {
   }
 
   /**
-   * Check point click with radius
+   * Check point click with the icon bounds, or the radius without icon
    */
   private _checkPointClick(event: MVTMouseEvent, feature: MVTFeature): boolean {
+    const { tileContext, tilePoint } = event;
+    if (tileContext && tilePoint && feature.hasIcon(tileContext)) {
+      if (feature.isPointInIcon(tilePoint, tileContext)) {
+        this.minDistance = 0;
+        return true;
+      }
+      return false;
+    }
+
     const paths = feature.getPaths(event.tileContext!);
 
     for (const path of paths) {
@@ -309,9 +355,11 @@ export class MVTLayer {
    */
   private _checkLineClick(event: MVTMouseEvent, feature: MVTFeature): boolean {
     const paths = feature.getPaths(event.tileContext!);
+    const offset = feature.style.lineOffset;
 
     for (const path of paths) {
-      const distance = Mercator.getDistanceFromLine(event.tilePoint!, path);
+      const line = offset ? Mercator.offsetLine(path, offset) : path;
+      const distance = Mercator.getDistanceFromLine(event.tilePoint!, line);
       const lineWidth = feature.style.lineWidth || 1;
       const tolerance = lineWidth / 2 + this._lineClickTolerance;
 
@@ -324,6 +372,41 @@ export class MVTLayer {
     return false;
   }
 
+  /**
+   * Get the features drawn in a tile, in drawing order
+   */
+  getTileFeatures(tileId: string): MVTFeature[] {
+    return (this._canvasAndMVTFeatures[tileId]?.features || []) as MVTFeature[];
+  }
+
+  /**
+   * Release the features drawn in a tile that left the viewport
+   */
+  releaseTile(tileId: string): void {
+    const canvasAndFeatures = this._canvasAndMVTFeatures[tileId];
+    if (!canvasAndFeatures) {
+      return;
+    }
+
+    delete this._canvasAndMVTFeatures[tileId];
+    this._releaseTileFeatures(canvasAndFeatures.features as MVTFeature[], tileId);
+  }
+
+  /**
+   * Remove the geometry of a tile from features, releasing those left without tiles
+   */
+  private _releaseTileFeatures(features: MVTFeature[], tileId: string): void {
+    for (const feature of features) {
+      feature.removeTileFeature(tileId);
+
+      // Features spanning other loaded tiles stay alive
+      if (Object.keys(feature.tiles).length === 0) {
+        delete this._mVTFeatures[feature.featureId];
+        feature.release();
+      }
+    }
+  }
+
   /**
    * Get canvas for a specific tile
    */
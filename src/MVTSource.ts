@@ -1,10 +1,18 @@
 import { VectorTile, VectorTileFeature } from '@mapbox/vector-tile';
-import Protobuf from 'pbf';
 import { MVTLayer } from './MVTLayer';
 import { MVTFeature } from './MVTFeature';
 import { Mercator } from './Mercator';
 import { ColorUtils } from './ColorUtils';
 import { createLogger, debugLogger } from './DebugLogger';
+import { TileDecodeError, TileLoadError, createXhrTileLoader, resolveTileUrl, toTileResponse } from './TileLoader';
+import { PersistentTileCache, withPersistentCache } from './PersistentTileCache';
+import { decodeVectorTile } from './TileDecoder';
+import { TileWorkerClient } from './TileWorker';
+import { TileRequestQueue } from './TileRequestQueue';
+import { TileAvailabilityIndex } from './TileAvailabilityIndex';
+import { LabelCandidate, LabelRenderer } from './LabelRenderer';
+import { IconCache, ResolvedIcon } from './IconCache';
+import { PMTilesArchive, createPMTilesTileLoader } from './PMTiles';
 // @ts-ignore - Turf types have module resolution issues
 import { polygon, buffer, intersect, union, Feature, Polygon, MultiPolygon, Properties } from '@turf/turf';
 import {
@@ -15,15 +23,36 @@ import {
   MouseEventOptions,
   FeatureStyle,
   FeatureStyleFunction,
+  FeatureState,
   FilterFunction,
   GeometryType,
   GeoJSONFeature,
   FeatureReplacementFunction,
   FeatureSelectionCallback,
-  TileManifest,
+  TileAvailabilityManifest,
   TileAvailabilitySource,
+  TileLoader,
+  TileUrl,
+  TileErrorCallback,
+  HeadersProvider,
+  TileJSONVectorLayer,
+  LayerOptions,
+  IconStyle,
 } from './types';
 
+/**
+ * A tile download shared by every displayed tile that renders from it
+ * (a single tile, or all overzoomed children of a parent tile)
+ */
+interface TileRequest {
+  id: string;
+  coord: TileCoord;
+  controller: AbortController;
+  tileContexts: Map<string, TileContext>;
+  attempt: number;
+  shared: boolean;
+}
+
 /**
  * google-maps-vector-engine - High performance vector tile renderer
  *
@@ -48,16 +77,35 @@ export class MVTSource implements google.maps.MapType {
   private logger = createLogger('MVTSource');
 
   // Core configuration
-  private _url: string;
+  private _url: TileUrl;
+  private _subdomains: string | string[] | undefined;
   private _sourceMaxZoom: number | false;
+  private _sourceMinZoom: number | false;
+  private _bounds: [number, number, number, number] | undefined;
+  private _vectorLayers: TileJSONVectorLayer[];
   private _debug: boolean;
   private _getIDForLayerFeature: (feature: VectorTileFeature) => string | number;
   private _defaultFeatureId: string;
   private _visibleLayers: string[] | undefined;
+  private _layers: Record<string, LayerOptions>;
   private _xhrHeaders: Record<string, string>;
+  private _headersProvider: HeadersProvider | undefined;
+  private _headersRefresh: Promise<Record<string, string>> | undefined;
+  private _headersVersion = 0;
+  private _tileLoader: TileLoader;
+  private _maxTileRetries: number;
+  private _tileRetryDelay: number;
+  private _tileRetryMaxDelay: number;
   private _clickableLayers: string[] | false;
   private _filter: FilterFunction | false;
   private _cache: boolean;
+  private _persistentCache: PersistentTileCache | undefined;
+  private _persistentCacheNamespace: string | undefined;
+  private _revalidateTiles: Set<string> = new Set(); // Refreshed tiles that bypass the persistent cache TTL
+  private _tileWorker: TileWorkerClient | undefined;
+  private _decodeWorker: Worker | undefined;
+  private _ownsDecodeWorker = false;
+  private _workerFetch = false;
   private _tileSize: number;
   private _customDraw: ((tileContext: TileContext, tile: any, style: FeatureStyle, feature: any) => void) | false;
   private _multipleSelection = false;
@@ -66,10 +114,21 @@ export class MVTSource implements google.maps.MapType {
   private _featureIndex: Map<string | number, MVTFeature> = new Map();
   private _selectedFeatureIds: Set<string | number> = new Set();
   private _hoveredFeatureIds: Set<string | number> = new Set();
+  private _featureStates: Map<string | number, FeatureState> = new Map();
 
   // Tile management
   private _tilesDrawn: Record<string, TileContext> = {};
   private _visibleTiles: Record<string, TileContext> = {};
+  private _tileRequests: Map<string, TileRequest> = new Map();
+  private _decodedTileCache: Map<string, VectorTile> = new Map();
+  private _tileRetryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private _failedTiles: Map<string, TileContext> = new Map();
+  private _requestQueue: TileRequestQueue;
+  private _refreshTimer: ReturnType<typeof setInterval> | undefined;
+  private _pixelRatio: number;
+  private _pixelRatioQuery: MediaQueryList | undefined;
+  private _labelRenderer = new LabelRenderer();
+  private _iconCache = new IconCache((tileIds) => tileIds.forEach((id) => this.redrawTile(id)));
 
   // GeoJSON overlay management
   private _geoJSONOverlays: Record<string | number, google.maps.Data.Feature> = {};
@@ -81,6 +140,7 @@ export class MVTSource implements google.maps.MapType {
   // Event handling
   private _onClickCallback: ((event: MVTMouseEvent) => void) | undefined;
   private _onMouseHoverCallback: ((event: MVTMouseEvent) => void) | undefined;
+  private _onTileErrorCallback: TileErrorCallback | undefined;
   private _toggleSelection = true;
   private _setSelectedOnClick = true;
   private _limitToFirstVisibleLayer = false;
@@ -92,7 +152,9 @@ export class MVTSource implements google.maps.MapType {
 
   // Tile availability manifest
   private _tileAvailabilityManifest?: TileAvailabilitySource;
-  private _resolvedManifest?: TileManifest;
+  private _manifestFallback: boolean;
+  private _resolvedManifest?: TileAvailabilityManifest;
+  private _availabilityIndex?: TileAvailabilityIndex;
 
   // Batched redraw system for smooth rendering
   private _pendingRedraws: Set<string> = new Set();
@@ -106,6 +168,7 @@ export class MVTSource implements google.maps.MapType {
   // Cache size limits to prevent memory leaks
   private static readonly MAX_TILES_CACHE_SIZE = 100;
   private static readonly MAX_VISIBLE_TILES_SIZE = 50;
+  private static readonly MAX_DECODED_TILE_CACHE_SIZE = 16;
 
   // Default color palette for consistency
   private static readonly DEFAULT_COLORS = {
@@ -128,7 +191,11 @@ export class MVTSource implements google.maps.MapType {
   constructor(map: google.maps.Map, options: MVTSourceOptions) {
     this.map = map;
     this._url = options.url || '';
+    this._subdomains = options.subdomains;
     this._sourceMaxZoom = options.sourceMaxZoom || false;
+    this._sourceMinZoom = options.minZoom !== undefined ? options.minZoom : false;
+    this._bounds = options.bounds;
+    this._vectorLayers = options.vectorLayers || [];
     this._debug = options.debug || false;
     this._defaultFeatureId = options.defaultFeatureId || 'fid';
     this._getIDForLayerFeature = options.getIDForLayerFeature || this.defaultGetIDForLayerFeature;
@@ -138,7 +205,34 @@ export class MVTSource implements google.maps.MapType {
     debugLogger.setDebug(this._debug);
 
     this._visibleLayers = options.visibleLayers;
+    this._layers = { ...options.layers };
     this._xhrHeaders = options.xhrHeaders || {};
+    this._headersProvider = options.headersProvider;
+    this._tileLoader = options.tileLoader || this._createDefaultTileLoader(options);
+    if (options.decodeWorker) {
+      this._ownsDecodeWorker = typeof options.decodeWorker === 'function';
+      this._decodeWorker = typeof options.decodeWorker === 'function' ? options.decodeWorker() : options.decodeWorker;
+      this._tileWorker = new TileWorkerClient(this._decodeWorker);
+      this._workerFetch = !options.tileLoader && !options.pmtiles && !options.persistentCache;
+    }
+    if (options.persistentCache) {
+      const cacheOptions = options.persistentCache === true ? {} : options.persistentCache;
+      this._persistentCache = new PersistentTileCache(cacheOptions);
+      this._persistentCacheNamespace =
+        cacheOptions.namespace || (typeof options.pmtiles === 'string' ? options.pmtiles : undefined);
+      this._tileLoader = withPersistentCache(
+        this._tileLoader,
+        this._persistentCache,
+        () => this._getPersistentCacheNamespace(),
+        (coord) => this._revalidateTiles.delete(this.getTileId(coord.z, coord.x, coord.y)),
+      );
+      // Fail early instead of sharing entries with unrelated sources
+      this._getPersistentCacheNamespace();
+    }
+    this._maxTileRetries = options.maxTileRetries !== undefined ? options.maxTileRetries : 2;
+    this._tileRetryDelay = options.tileRetryDelay || 500;
+    this._tileRetryMaxDelay = options.tileRetryMaxDelay || 8000;
+    this._requestQueue = new TileRequestQueue(options.maxConcurrentRequests || 6);
     this._clickableLayers = options.clickableLayers || false;
     this._filter = options.filter || false;
     this._cache = options.cache || false;
@@ -149,10 +243,12 @@ export class MVTSource implements google.maps.MapType {
 
     // Tile availability manifest configuration
     this._tileAvailabilityManifest = options.tileAvailabilityManifest;
+    this._manifestFallback = options.manifestFallback || false;
 
     // Event handling configuration
     this._onClickCallback = options.onClick;
     this._onMouseHoverCallback = options.onMouseHover;
+    this._onTileErrorCallback = options.onTileError;
     this._multipleSelection = options.multipleSelection || false;
     this._toggleSelection = options.toggleSelection !== undefined ? options.toggleSelection : true;
     this._setSelectedOnClick = options.setSelectedOnClick !== undefined ? options.setSelectedOnClick : true;
@@ -163,8 +259,8 @@ export class MVTSource implements google.maps.MapType {
     this.style = options.style || this.defaultStyle.bind(this);
     this.name = 'Optimized MVT Layer';
     this.alt = 'Optimized Vector Tile Layer';
-    this.maxZoom = typeof this._sourceMaxZoom === 'number' ? this._sourceMaxZoom : 18;
-    this.minZoom = 6;
+    this.maxZoom = options.maxZoom ?? (typeof this._sourceMaxZoom === 'number' ? this._sourceMaxZoom : 18);
+    this.minZoom = this._sourceMinZoom !== false ? this._sourceMinZoom : 6;
 
     if (options.selectedFeatures) {
       this.setSelectedFeatures(options.selectedFeatures);
@@ -175,9 +271,23 @@ export class MVTSource implements google.maps.MapType {
     });
     this._eventListeners.push(zoomListener);
 
+    const centerListener = this.map.addListener('center_changed', () => {
+      this._requestQueue.reprioritize((requestId) => this._getRequestPriority(requestId));
+    });
+    this._eventListeners.push(centerListener);
+
     this._setupEventListeners();
     this._setupGeoJSONClickHandlers();
 
+    if (options.refreshInterval) {
+      this._refreshTimer = setInterval(() => this.refreshTiles(), options.refreshInterval);
+    }
+
+    this._pixelRatio = options.pixelRatio ?? MVTSource._getDevicePixelRatio();
+    if (options.pixelRatio === undefined) {
+      this._watchPixelRatio();
+    }
+
     // Initialize manifest asynchronously, but add to map immediately
     // Tile requests will be handled gracefully during manifest loading
     this._initializeManifest().catch((error) => {
@@ -203,6 +313,16 @@ export class MVTSource implements google.maps.MapType {
     this._hoveredFeatureIds.delete(featureId);
   }
 
+  /**
+   * Drop a feature from the index once it no longer has any loaded tiles,
+   * keeping its selection and hover state for when it is loaded again
+   */
+  releaseFeature(feature: MVTFeature): void {
+    if (this._featureIndex.get(feature.featureId) === feature) {
+      this._featureIndex.delete(feature.featureId);
+    }
+  }
+
   /**
    * Get feature by ID
    */
@@ -249,55 +369,84 @@ export class MVTSource implements google.maps.MapType {
     try {
       if (typeof this._tileAvailabilityManifest === 'function') {
         this._resolvedManifest = await this._tileAvailabilityManifest();
-        this.logger.info('Manifest loaded from API:', Object.keys(this._resolvedManifest || {}).length, 'zoom levels');
+        this.logger.info('Manifest loaded from API');
       } else {
         this._resolvedManifest = this._tileAvailabilityManifest;
-        this.logger.info(
-          'Manifest loaded from static data:',
-          Object.keys(this._resolvedManifest || {}).length,
-          'zoom levels',
-        );
+        this.logger.info('Manifest loaded from static data');
       }
+      this._availabilityIndex = new TileAvailabilityIndex(this._resolvedManifest);
     } catch (error) {
       this.logger.warn('Failed to load tile availability manifest:', error);
       this._resolvedManifest = undefined;
+      this._availabilityIndex = undefined;
     }
   }
 
   /**
-   * Check if a tile is available according to the manifest
+   * Read tiles from a PMTiles archive when configured, otherwise from the URL template
    */
-  private _isTileAvailable(z: number, x: number, y: number): boolean {
-    if (!this._resolvedManifest) {
-      this.logger.log(`No manifest available yet, allowing tile: ${z}/${x}/${y}`);
-      return true; // If no manifest, assume all tiles are available
+  private _createDefaultTileLoader(options: MVTSourceOptions): TileLoader {
+    if (options.pmtiles) {
+      return createPMTilesTileLoader(new PMTilesArchive(options.pmtiles, this._xhrHeaders));
     }
+    return createXhrTileLoader((tile) => resolveTileUrl(this._url, tile, this._subdomains, this._pixelRatio));
+  }
 
-    const zoomLevel = z.toString();
-    const xCoordinate = x.toString();
+  /**
+   * Persistent cache entries are shared by sources with the same namespace,
+   * the PMTiles archive URL or the URL template by default
+   */
+  private _getPersistentCacheNamespace(): string {
+    if (this._persistentCacheNamespace) {
+      return this._persistentCacheNamespace;
+    }
+    if (typeof this._url === 'string' && this._url) {
+      return this._url;
+    }
+    throw new Error('persistentCache.namespace is required for sources without a URL template or PMTiles URL');
+  }
 
-    // Check if zoom level exists in manifest
-    if (!this._resolvedManifest[zoomLevel]) {
-      this.logger.log(`Zoom level ${z} not found in manifest, rejecting tile: ${z}/${x}/${y}`);
+  /**
+   * Check a tile against the source minimum zoom and bounds
+   */
+  private _isTileInSourceRange(tile: TileCoord): boolean {
+    if (this._sourceMinZoom !== false && tile.z < this._sourceMinZoom) {
       return false;
     }
+    if (!this._bounds) {
+      return true;
+    }
 
-    // Check if x coordinate exists in manifest
-    if (!this._resolvedManifest[zoomLevel][xCoordinate]) {
-      this.logger.log(`X coordinate ${x} not found in manifest for zoom ${z}, rejecting tile: ${z}/${x}/${y}`);
+    const [west, south, east, north] = this._bounds;
+    const { sw, ne } = Mercator.getTileBounds(tile);
+    if (sw.lat > north || ne.lat < south) {
       return false;
     }
 
-    // Check if y coordinate falls within any of the available ranges
-    const yRanges = this._resolvedManifest[zoomLevel][xCoordinate];
-    const isAvailable = yRanges.some(([yStart, yEnd]) => y >= yStart && y <= yEnd);
+    // Bounds crossing the antimeridian have west > east
+    if (west <= east) {
+      return sw.lng <= east && ne.lng >= west;
+    }
+    return sw.lng <= east || ne.lng >= west;
+  }
 
-    if (isAvailable) {
-      this.logger.log(`Tile ${z}/${x}/${y} is available according to manifest`);
-    } else {
-      this.logger.log(`Tile ${z}/${x}/${y} not in available Y ranges: ${JSON.stringify(yRanges)}`);
+  /**
+   * Check if a tile is available according to the manifest
+   */
+  private _isTileAvailable(z: number, x: number, y: number): boolean {
+    if (!this._availabilityIndex) {
+      this.logger.log(`No manifest available yet, allowing tile: ${z}/${x}/${y}`);
+      return true; // If no manifest, assume all tiles are available
+    }
+
+    // Check if zoom level exists in manifest
+    if (!this._availabilityIndex.hasZoom(z)) {
+      this.logger.log(`Zoom level ${z} not found in manifest, rejecting tile: ${z}/${x}/${y}`);
+      return false;
     }
 
+    const isAvailable = this._availabilityIndex.isAvailable(z, x, y);
+    this.logger.log(`Tile ${z}/${x}/${y} is ${isAvailable ? '' : 'not '}available according to manifest`);
     return isAvailable;
   }
 
@@ -368,10 +517,53 @@ export class MVTSource implements google.maps.MapType {
   }
 
   /**
-   * Release tile resources
+   * Release tile resources when Google Maps removes a tile from the viewport
    */
-  releaseTile(): void {
-    // Implementation for tile cleanup if needed
+  releaseTile(tile: Element | null): void {
+    if (!tile || !tile.id) {
+      return;
+    }
+
+    const { id } = tile;
+    this.logger.log(`Releasing tile: ${id}`);
+
+    // Cancel the download if no other displayed tile is waiting for it
+    this._detachFromTileRequests(id);
+    this._failedTiles.delete(id);
+
+    delete this._visibleTiles[id];
+    this._pendingRedraws.delete(id);
+
+    // Cached tiles are kept so they can be reused when panning back
+    if (this._cache && this._tilesDrawn[id]) {
+      return;
+    }
+
+    this._freeTileResources(id, tile instanceof HTMLCanvasElement ? tile : undefined);
+  }
+
+  /**
+   * Free features, decoded data and canvas memory held for a tile
+   */
+  private _freeTileResources(id: string, canvas?: HTMLCanvasElement): void {
+    const tileContext = this._tilesDrawn[id];
+    delete this._tilesDrawn[id];
+
+    Object.values(this.mVTLayers).forEach((layer) => {
+      layer.releaseTile(id);
+    });
+    this._labelRenderer.releaseTile(id);
+
+    if (tileContext) {
+      tileContext.vectorTile = undefined;
+    }
+
+    // Shrinking the canvas releases its backing store immediately
+    const tileCanvas = canvas || tileContext?.canvas;
+    if (tileCanvas) {
+      tileCanvas.width = 0;
+      tileCanvas.height = 0;
+    }
   }
 
   /**
@@ -382,6 +574,17 @@ export class MVTSource implements google.maps.MapType {
 
     const selectedIds = Array.from(this._selectedFeatureIds);
 
+    // Tiles of the previous zoom level will never be drawn, drop them before they start
+    const zoom = this.map.getZoom();
+    this._requestQueue
+      .filter((requestId) => {
+        const request = this._tileRequests.get(requestId);
+        return !!request && Array.from(request.tileContexts.values()).some((context) => context.zoom === zoom);
+      })
+      .forEach((requestId) => {
+        this._abortTileRequest(requestId);
+      });
+
     this._resetVisibleTiles();
     if (!this._cache) {
       this._resetMVTLayers();
@@ -442,7 +645,7 @@ export class MVTSource implements google.maps.MapType {
 
     tileContext = this._createTileContext(coord, zoom, ownerDocument);
     this.loadedTilesLen = 0;
-    this._xhrRequest(tileContext);
+    this._requestTile(tileContext);
 
     return tileContext;
   }
@@ -487,12 +690,75 @@ export class MVTSource implements google.maps.MapType {
    */
   private _createCanvas(ownerDocument: Document, id: string): HTMLCanvasElement {
     const canvas = ownerDocument.createElement('canvas');
-    canvas.width = this._tileSize;
-    canvas.height = this._tileSize;
     canvas.id = id;
+    this._sizeCanvas(canvas);
     return canvas;
   }
 
+  /**
+   * Back a canvas with device pixels, drawing stays in CSS pixels through the transform
+   */
+  private _sizeCanvas(canvas: HTMLCanvasElement): void {
+    const size = Math.round(this._tileSize * this._pixelRatio);
+    canvas.width = size;
+    canvas.height = size;
+    canvas.style.width = `${this._tileSize}px`;
+    canvas.style.height = `${this._tileSize}px`;
+
+    const scale = size / this._tileSize;
+    canvas.getContext('2d')?.setTransform(scale, 0, 0, scale, 0, 0);
+  }
+
+  /**
+   * Get the device pixel ratio tile canvases are backed at
+   */
+  getPixelRatio(): number {
+    return this._pixelRatio;
+  }
+
+  /**
+   * Resize the visible tile canvases for a new device pixel ratio and redraw them, dropping cached tiles
+   */
+  setPixelRatio(pixelRatio: number): void {
+    if (pixelRatio === this._pixelRatio) {
+      return;
+    }
+
+    this._pixelRatio = pixelRatio;
+    // Cached tiles outside the viewport are drawn again at the new ratio when visible
+    Object.keys(this._tilesDrawn).forEach((id) => {
+      if (!this._visibleTiles[id]) {
+        this._freeTileResources(id);
+      }
+    });
+    Object.values(this._visibleTiles).forEach((tileContext) => {
+      this._sizeCanvas(tileContext.canvas);
+    });
+    this.redrawAllTiles();
+  }
+
+  /**
+   * Follow device pixel ratio changes, e.g. when the window moves to another monitor
+   */
+  private _watchPixelRatio(): void {
+    this._pixelRatioQuery?.removeEventListener('change', this._onPixelRatioChange);
+    this._pixelRatioQuery =
+      typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+        ? window.matchMedia(`(resolution: ${this._pixelRatio}dppx)`)
+        : undefined;
+    this._pixelRatioQuery?.addEventListener('change', this._onPixelRatioChange);
+  }
+
+  private _onPixelRatioChange = (): void => {
+    this.setPixelRatio(MVTSource._getDevicePixelRatio());
+    // The media query only matches the previous ratio
+    this._watchPixelRatio();
+  };
+
+  private static _getDevicePixelRatio(): number {
+    return (typeof window !== 'undefined' && window.devicePixelRatio) || 1;
+  }
+
   /**
    * Generate tile ID
    */
@@ -513,65 +779,414 @@ export class MVTSource implements google.maps.MapType {
   }
 
   /**
-   * Make XHR request for tile data
+   * Request tile data through the configured tile loader
    */
-  private _xhrRequest(tileContext: TileContext): void {
-    const id = tileContext.parentId || tileContext.id;
-    const tile = this.getTileObject(id);
+  private _requestTile(tileContext: TileContext): void {
+    // Skip tiles the source has no data for
+    if (!this._isTileInSourceRange(this.getTileObject(tileContext.id))) {
+      this.logger.log(`Tile outside of source bounds: ${tileContext.id}`);
+      this._drawDebugInfo(tileContext);
+      return;
+    }
 
     // Check tile availability against manifest
-    if (!this._isTileAvailable(tile.z, tile.x, tile.y)) {
-      this.logger.log(`Tile not available according to manifest: ${tile.z}/${tile.x}/${tile.y}`);
-      this._drawDebugInfo(tileContext);
+    let sourceTile = this.getTileObject(this._getParentId(tileContext.id) || tileContext.id);
+    if (!this._isTileAvailable(sourceTile.z, sourceTile.x, sourceTile.y)) {
+      const ancestor = this._manifestFallback ? this._findAvailableAncestor(sourceTile) : undefined;
+      if (!ancestor) {
+        this.logger.log(`Tile not available according to manifest: ${sourceTile.z}/${sourceTile.x}/${sourceTile.y}`);
+        this._drawDebugInfo(tileContext);
+        return;
+      }
+
+      this.logger.log(`Tile ${tileContext.id} falls back to ancestor ${ancestor.z}/${ancestor.x}/${ancestor.y}`);
+      sourceTile = ancestor;
+    }
+
+    const id = this.getTileId(sourceTile.z, sourceTile.x, sourceTile.y);
+    tileContext.parentId = id !== tileContext.id ? id : undefined;
+
+    // Overzoomed children render from the same decoded parent tile
+    const decodedTile = this._decodedTileCache.get(id);
+    if (decodedTile) {
+      this._tileResponseOk(tileContext, decodedTile);
       return;
     }
 
-    const src = this._url
-      .replace('{z}', tile.z.toString())
-      .replace('{x}', tile.x.toString())
-      .replace('{y}', tile.y.toString());
+    const pendingRequest = this._tileRequests.get(id);
+    if (pendingRequest) {
+      pendingRequest.tileContexts.set(tileContext.id, tileContext);
+      return;
+    }
 
-    this.logger.log(`Requesting tile: ${src}`);
+    const request: TileRequest = {
+      id,
+      coord: sourceTile,
+      controller: new AbortController(),
+      tileContexts: new Map([[tileContext.id, tileContext]]),
+      attempt: 0,
+      shared: id !== tileContext.id,
+    };
+    this._tileRequests.set(id, request);
+    this._scheduleTileRequest(request);
+  }
 
-    const xmlHttpRequest = new XMLHttpRequest();
-    xmlHttpRequest.onload = () => {
-      this.logger.log(`Tile response: ${xmlHttpRequest.status} for ${src}`);
-      if (xmlHttpRequest.status === 200 && xmlHttpRequest.response) {
-        this._xhrResponseOk(tileContext, xmlHttpRequest.response);
-      } else {
-        this._drawDebugInfo(tileContext);
+  /**
+   * Nearest ancestor of a tile listed in the manifest, rendered overzoomed in its place
+   */
+  private _findAvailableAncestor(tile: TileCoord): TileCoord | undefined {
+    for (let zoomDistance = 1; zoomDistance <= tile.z; zoomDistance++) {
+      const ancestor = { z: tile.z - zoomDistance, x: tile.x >> zoomDistance, y: tile.y >> zoomDistance };
+      if (this._sourceMinZoom !== false && ancestor.z < this._sourceMinZoom) {
+        return undefined;
       }
-    };
+      if (this._isTileAvailable(ancestor.z, ancestor.x, ancestor.y)) {
+        return ancestor;
+      }
+    }
+    return undefined;
+  }
 
-    xmlHttpRequest.onerror = () => {
-      this.logger.error(`Failed to load tile: ${src}`);
+  /**
+   * Queue a tile request by its distance from the viewport centre
+   */
+  private _scheduleTileRequest(request: TileRequest): void {
+    this._requestQueue.enqueue(request.id, this._getRequestPriority(request.id), () => this._loadTile(request));
+  }
+
+  /**
+   * Load tile data once the request queue grants a slot
+   */
+  private _loadTile(request: TileRequest): Promise<void> {
+    const { coord, controller } = request;
+    if (controller.signal.aborted) {
+      return Promise.resolve();
+    }
+
+    this.logger.log(`Requesting tile: ${coord.z}/${coord.x}/${coord.y}`);
+
+    return this._fetchVectorTile(coord, controller.signal)
+      .then((vectorTile) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        this._tileRequests.delete(request.id);
+        if (request.shared) {
+          this._cacheDecodedTile(request.id, vectorTile);
+        }
+
+        request.tileContexts.forEach((tileContext) => {
+          this._failedTiles.delete(tileContext.id);
+          this._tileResponseOk(tileContext, vectorTile);
+        });
+      })
+      .catch((error) => {
+        // Aborted requests are expected, nothing to report
+        if (controller.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+          return;
+        }
+        this._tileRequestFailed(request, error);
+      });
+  }
+
+  /**
+   * Fetch and decode a tile, refreshing provided headers once when the server answers 401
+   */
+  private _fetchVectorTile(coord: TileCoord, signal: AbortSignal): Promise<VectorTile> {
+    if (!this._headersProvider) {
+      return this._fetchVectorTileWithHeaders(coord, signal, { ...this._xhrHeaders });
+    }
+
+    const headersVersion = this._headersVersion;
+    return this._getRequestHeaders(false)
+      .then((headers) => this._fetchVectorTileWithHeaders(coord, signal, headers))
+      .catch((error) => {
+        if (!this._headersProvider || signal.aborted || !(error instanceof TileLoadError) || error.status !== 401) {
+          throw error;
+        }
+
+        // Headers refreshed by another tile in the meantime are reused
+        this.logger.log(`Tile ${coord.z}/${coord.x}/${coord.y} unauthorized, refreshing headers`);
+        return this._getRequestHeaders(headersVersion === this._headersVersion).then((headers) =>
+          this._fetchVectorTileWithHeaders(coord, signal, headers),
+        );
+      });
+  }
+
+  /**
+   * Fetch and decode a tile, off the main thread when a decode worker is configured
+   */
+  private _fetchVectorTileWithHeaders(
+    coord: TileCoord,
+    signal: AbortSignal,
+    headers: Record<string, string>,
+  ): Promise<VectorTile> {
+    // The worker can fetch plain URL template tiles itself
+    if (this._tileWorker && this._workerFetch) {
+      const url = resolveTileUrl(this._url, coord, this._subdomains, this._pixelRatio);
+      return this._tileWorker.load(url, headers, this._tileSize, signal);
+    }
+
+    return this._tileLoader(coord, signal, headers).then((response) => {
+      const { data } = toTileResponse(response);
+      return this._tileWorker ? this._tileWorker.decode(data, this._tileSize, signal) : decodeVectorTile(data);
+    });
+  }
+
+  /**
+   * Static headers merged with those of the headers provider
+   *
+   * Concurrent tiles share a single forced refresh, and wait for it
+   * instead of requesting headers that are known to be stale.
+   */
+  private _getRequestHeaders(forceRefresh: boolean): Promise<Record<string, string>> {
+    const provider = this._headersProvider as HeadersProvider;
+    if (this._headersRefresh) {
+      return this._headersRefresh;
+    }
+
+    const headers = Promise.resolve()
+      .then(() => provider({ forceRefresh }))
+      .then((provided) => ({ ...this._xhrHeaders, ...provided }));
+
+    if (forceRefresh) {
+      this._headersRefresh = headers;
+      this._headersVersion++;
+      const clearRefresh = (): void => {
+        if (this._headersRefresh === headers) {
+          this._headersRefresh = undefined;
+        }
+      };
+      headers.then(clearRefresh, clearRefresh);
+    }
+    return headers;
+  }
+
+  /**
+   * Keep decoded parent tiles so later overzoomed children skip the download
+   */
+  private _cacheDecodedTile(id: string, vectorTile: VectorTile): void {
+    if (this._decodedTileCache.size >= MVTSource.MAX_DECODED_TILE_CACHE_SIZE) {
+      // Remove oldest tile (simple FIFO approach)
+      const oldestId = this._decodedTileCache.keys().next().value;
+      if (oldestId !== undefined) {
+        this._decodedTileCache.delete(oldestId);
+      }
+    }
+
+    this._decodedTileCache.set(id, vectorTile);
+  }
+
+  /**
+   * Stop waiting for data for a displayed tile, aborting requests nobody else needs
+   */
+  private _detachFromTileRequests(tileId: string): void {
+    this._tileRequests.forEach((request) => {
+      if (request.tileContexts.delete(tileId) && request.tileContexts.size === 0) {
+        this._abortTileRequest(request.id);
+      }
+    });
+  }
+
+  /**
+   * Abort a tile request whether queued, in flight or waiting for a retry
+   */
+  private _abortTileRequest(requestId: string): void {
+    const request = this._tileRequests.get(requestId);
+    if (!request) {
+      return;
+    }
+
+    request.controller.abort();
+    this._requestQueue.cancel(requestId);
+    this._clearTileRetry(requestId);
+    this._tileRequests.delete(requestId);
+  }
+
+  /**
+   * Priority of a tile request, from the displayed tile closest to the viewport centre
+   */
+  private _getRequestPriority(requestId: string): number {
+    const request = this._tileRequests.get(requestId);
+    if (!request) {
+      return this._getTilePriority(requestId);
+    }
+
+    let priority = Number.POSITIVE_INFINITY;
+    request.tileContexts.forEach((tileContext) => {
+      priority = Math.min(priority, this._getTilePriority(tileContext.id));
+    });
+    return priority;
+  }
+
+  /**
+   * Squared distance between a tile centre and the viewport centre, in tiles
+   */
+  private _getTilePriority(tileId: string): number {
+    const center = this.map.getCenter?.();
+    if (!center) {
+      return 0;
+    }
+
+    const tile = this.getTileObject(tileId);
+    const worldPoint = Mercator.fromLatLngToPoint(center);
+    const scale = (1 << tile.z) / this._tileSize;
+    const dx = tile.x + 0.5 - worldPoint.x * scale;
+    const dy = tile.y + 0.5 - worldPoint.y * scale;
+    return dx * dx + dy * dy;
+  }
+
+  /**
+   * Retry a failed tile request with exponential backoff, or report the failure
+   */
+  private _tileRequestFailed(request: TileRequest, error: unknown): void {
+    const { coord } = request;
+    const status = error instanceof TileLoadError ? error.status : 0;
+
+    // Corrupt tiles will not decode on a second attempt either
+    const retryable = !(error instanceof TileDecodeError) && MVTSource._isRetryableStatus(status);
+    if (request.attempt < this._maxTileRetries && retryable) {
+      const delay = this._getTileRetryDelay(request.attempt);
+      this.logger.warn(
+        `Tile ${coord.z}/${coord.x}/${coord.y} failed (status ${status}), retrying in ${Math.round(delay)}ms`,
+      );
+
+      request.attempt++;
+      const timer = setTimeout(() => {
+        this._tileRetryTimers.delete(request.id);
+        this._scheduleTileRequest(request);
+      }, delay);
+      this._tileRetryTimers.set(request.id, timer);
+      return;
+    }
+
+    this.logger.error(`Failed to load tile ${coord.z}/${coord.x}/${coord.y}:`, error);
+    this._tileRequests.delete(request.id);
+    request.tileContexts.forEach((tileContext) => {
+      this._failedTiles.set(tileContext.id, tileContext);
       this._drawDebugInfo(tileContext);
-    };
+    });
+
+    if (this._onTileErrorCallback) {
+      try {
+        this._onTileErrorCallback(coord, status, error instanceof Error ? error : new Error(String(error)));
+      } catch (callbackError) {
+        this.logger.error('Error in tile error callback:', callbackError);
+      }
+    }
+  }
+
+  /**
+   * Network failures, timeouts, rate limiting and server errors are worth retrying
+   */
+  private static _isRetryableStatus(status: number): boolean {
+    return status === 0 || status === 408 || status === 429 || status >= 500;
+  }
+
+  /**
+   * Exponential backoff with jitter so failed tiles don't retry in lockstep
+   */
+  private _getTileRetryDelay(attempt: number): number {
+    const delay = Math.min(this._tileRetryMaxDelay, this._tileRetryDelay * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Cancel a scheduled tile retry
+   */
+  private _clearTileRetry(id: string): void {
+    const timer = this._tileRetryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this._tileRetryTimers.delete(id);
+    }
+  }
+
+  /**
+   * Request again the visible tiles that failed after exhausting their retries
+   */
+  retryFailedTiles(): void {
+    const failedTiles = Array.from(this._failedTiles.values());
+    this._failedTiles.clear();
 
-    xmlHttpRequest.open('GET', src, true);
-    Object.entries(this._xhrHeaders).forEach(([header, value]) => {
-      xmlHttpRequest.setRequestHeader(header, value);
+    failedTiles.forEach((tileContext) => {
+      if (this._visibleTiles[tileContext.id] === tileContext) {
+        this.clearTile(tileContext.canvas);
+        this._requestTile(tileContext);
+      }
     });
-    xmlHttpRequest.responseType = 'arraybuffer';
-    xmlHttpRequest.send();
   }
 
   /**
-   * Handle successful XHR response
+   * Handle successful tile response
    */
-  private _xhrResponseOk(tileContext: TileContext, response: ArrayBuffer): void {
+  private _tileResponseOk(tileContext: TileContext, vectorTile: VectorTile): void {
     if (this.map.getZoom() !== tileContext.zoom) {
       return;
     }
 
-    const uint8Array = new Uint8Array(response);
-    const pbf = new Protobuf(uint8Array);
-    const vectorTile = new VectorTile(pbf);
+    // Refreshed data replaces the previous drawing in the same frame, so the tile never shows empty
+    if (tileContext.vectorTile) {
+      this._releaseRemovedLayers(tileContext.id, vectorTile);
+      this._invalidateStyleCache();
+      this.deleteTileDrawn(tileContext.id);
+      this.clearTile(tileContext.canvas);
+    }
 
     this._parseVectorTileGeometries(vectorTile);
     this._drawVectorTile(vectorTile, tileContext);
   }
 
+  /**
+   * Release the features of layers missing from refreshed tile data
+   */
+  private _releaseRemovedLayers(tileId: string, vectorTile: VectorTile): void {
+    Object.keys(this.mVTLayers).forEach((key) => {
+      if (!vectorTile.layers[key]) {
+        this.mVTLayers[key].releaseTile(tileId);
+      }
+    });
+  }
+
+  /**
+   * Download visible tiles again, all of them or the given tile IDs
+   *
+   * Features are diffed per tile: changed features are updated in place, new
+   * ones are added and removed ones released, keeping selection and hover state.
+   * The current drawing stays on screen until the new data is decoded. Tiles in
+   * the persistent cache are revalidated with the server whatever their age.
+   */
+  refreshTiles(tileIds?: string[]): void {
+    const ids = tileIds || Object.keys(this._visibleTiles);
+    this.logger.log(`Refreshing ${ids.length} tiles`);
+
+    if (!tileIds) {
+      // Cached tiles outside the viewport would be stale when panning back
+      Object.keys(this._tilesDrawn).forEach((id) => {
+        if (!this._visibleTiles[id]) {
+          this._freeTileResources(id);
+        }
+      });
+    }
+
+    // Tiles still loading will receive fresh data anyway
+    const pendingIds = new Set(this._tileRequests.keys());
+    ids.forEach((id) => {
+      const tileContext = this._visibleTiles[id];
+      if (!tileContext?.vectorTile || pendingIds.has(tileContext.parentId || tileContext.id)) {
+        return;
+      }
+
+      this._decodedTileCache.delete(tileContext.parentId || tileContext.id);
+      this._failedTiles.delete(id);
+      if (this._persistentCache) {
+        this._revalidateTiles.add(tileContext.parentId || tileContext.id);
+      }
+      this._requestTile(tileContext);
+    });
+  }
+
   /**
    * Parse vector tile geometries
    */
@@ -614,7 +1229,11 @@ export class MVTSource implements google.maps.MapType {
       // Remove oldest tiles (simple FIFO approach)
       const tilesToRemove = drawnTileIds.slice(0, drawnTileIds.length - MVTSource.MAX_TILES_CACHE_SIZE + 1);
       tilesToRemove.forEach((tileId) => {
-        delete this._tilesDrawn[tileId];
+        if (this._visibleTiles[tileId]) {
+          delete this._tilesDrawn[tileId];
+        } else {
+          this._freeTileResources(tileId);
+        }
       });
     }
 
@@ -664,6 +1283,7 @@ export class MVTSource implements google.maps.MapType {
         this._drawVectorTileLayer(vectorTileLayer, key, tileContext);
       }
     }
+    this._drawLabels(vectorTile, tileContext);
 
     tileContext.vectorTile = vectorTile;
     // Only draw debug info during initial tile creation, not on feature redraws
@@ -673,6 +1293,29 @@ export class MVTSource implements google.maps.MapType {
     this._setTileDrawn(tileContext);
   }
 
+  /**
+   * Draw the labels of a tile over the features of all its layers
+   */
+  private _drawLabels(vectorTile: VectorTile, tileContext: TileContext): void {
+    const candidates: LabelCandidate[] = [];
+    (this._visibleLayers ?? Object.keys(vectorTile.layers)).forEach((key) => {
+      this.mVTLayers[key]?.getTileFeatures(tileContext.id).forEach((feature) => {
+        const { vectorTileFeature } = feature.getTile(tileContext);
+        const style = this.getStyleForFeature(vectorTileFeature, feature.featureId, key, tileContext.zoom);
+        if (style.label) {
+          candidates.push({
+            key: `${key}:${feature.featureId}`,
+            type: feature.type,
+            paths: feature.getPaths(tileContext),
+            properties: feature.properties,
+            style: style.label,
+          });
+        }
+      });
+    });
+    this._labelRenderer.drawLabels(tileContext, candidates);
+  }
+
   /**
    * Draw vector tile layer
    */
@@ -681,6 +1324,14 @@ export class MVTSource implements google.maps.MapType {
     key: string,
     tileContext: TileContext,
   ): void {
+    const layerOptions = this._layers[key];
+    if (
+      (layerOptions?.minZoom !== undefined && tileContext.zoom < layerOptions.minZoom) ||
+      (layerOptions?.maxZoom !== undefined && tileContext.zoom > layerOptions.maxZoom)
+    ) {
+      return;
+    }
+
     this.logger.log(`Drawing layer "${key}"`);
 
     if (!this.mVTLayers[key]) {
@@ -703,10 +1354,11 @@ export class MVTSource implements google.maps.MapType {
   private _createMVTLayer(key: string): MVTLayer {
     const options = {
       getIDForLayerFeature: this._getIDForLayerFeature,
-      filter: this._filter,
-      style: this.style,
+      filter: this._getLayerFilter(key),
+      style: this._getLayerStyle(key),
       name: key,
-      customDraw: this._customDraw,
+      customDraw: this._layers[key]?.customDraw || this._customDraw,
+      getFeatureState: (featureId: string | number): FeatureState => this.getFeatureState(featureId),
     };
     return new MVTLayer(options);
   }
@@ -724,6 +1376,7 @@ export class MVTSource implements google.maps.MapType {
     context2d.strokeStyle = MVTSource.DEFAULT_COLORS.DEBUG_STROKE;
     context2d.fillStyle = MVTSource.DEFAULT_COLORS.DEBUG_FILL;
     context2d.lineWidth = 1;
+    context2d.setLineDash([]);
     context2d.strokeRect(0, 0, width, height);
     context2d.font = '12px Arial';
 
@@ -872,7 +1525,7 @@ export class MVTSource implements google.maps.MapType {
       const key = clickableLayers[i];
       const layer = this.mVTLayers[key];
 
-      if (layer) {
+      if (layer && this._layers[key]?.clickable !== false) {
         const processedEvent = layer.handleClickEvent(event, this);
         this._mouseSelectedFeature(processedEvent, callback, options ?? {});
 
@@ -1123,6 +1776,39 @@ export class MVTSource implements google.maps.MapType {
     return this._replacedFeatures[featureId] !== undefined;
   }
 
+  /**
+   * Get the loaded image of an icon style, redrawing the tile once it loads otherwise
+   */
+  getIcon(icon: IconStyle, tileId: string): ResolvedIcon | undefined {
+    return this._iconCache.getIcon(icon, tileId);
+  }
+
+  /**
+   * Merge state into a feature's state, redrawing only the tiles holding it
+   *
+   * The state is passed to style functions as `context.featureState`.
+   */
+  setFeatureState(featureId: string | number, state: FeatureState): void {
+    this._featureStates.set(featureId, { ...this._featureStates.get(featureId), ...state });
+    this._scheduleRedrawForFeature(featureId);
+  }
+
+  /**
+   * Get the state of a feature, empty when none was set
+   */
+  getFeatureState(featureId: string | number): FeatureState {
+    return { ...this._featureStates.get(featureId) };
+  }
+
+  /**
+   * Remove the state of a feature
+   */
+  removeFeatureState(featureId: string | number): void {
+    if (this._featureStates.delete(featureId)) {
+      this._scheduleRedrawForFeature(featureId);
+    }
+  }
+
   /**
    * Get selected features
    */
@@ -1323,7 +2009,7 @@ export class MVTSource implements google.maps.MapType {
   setFilter(filter: FilterFunction | false, redrawTiles = true): void {
     this._filter = filter;
     Object.values(this.mVTLayers).forEach((layer) => {
-      layer.setFilter(filter);
+      layer.setFilter(this._getLayerFilter(layer.name));
     });
 
     if (redrawTiles) {
@@ -1339,9 +2025,13 @@ export class MVTSource implements google.maps.MapType {
 
     this.style = style;
     this._invalidateStyleCache();
+    if (redrawTiles) {
+      // Labels are placed again with the new style
+      this._labelRenderer.clear();
+    }
 
     Object.values(this.mVTLayers).forEach((layer) => {
-      layer.setStyle(style);
+      layer.setStyle(this._getLayerStyle(layer.name));
     });
 
     this._featureIndex.forEach((feature, featureId) => {
@@ -1357,12 +2047,53 @@ export class MVTSource implements google.maps.MapType {
     }
   }
 
-  private _getStyleCacheKey(feature: VectorTileFeature, featureId: string | number): string {
+  /**
+   * Set the style of one layer, or fall back to the source style when undefined
+   */
+  setLayerStyle(name: string, style: FeatureStyle | FeatureStyleFunction | undefined, redrawTiles = true): void {
+    this._layers[name] = { ...this._layers[name], style };
+    this._invalidateStyleCache();
+    this.mVTLayers[name]?.setStyle(this._getLayerStyle(name));
+
+    if (redrawTiles) {
+      this._labelRenderer.clear();
+      this._scheduleRedraw('all');
+    }
+  }
+
+  /**
+   * Set the filter of one layer, or fall back to the source filter when undefined
+   */
+  setLayerFilter(name: string, filter: FilterFunction | false | undefined, redrawTiles = true): void {
+    this._layers[name] = { ...this._layers[name], filter };
+    this.mVTLayers[name]?.setFilter(this._getLayerFilter(name));
+
+    if (redrawTiles) {
+      this._scheduleRedraw('all');
+    }
+  }
+
+  private _getLayerStyle(name: string): FeatureStyle | FeatureStyleFunction {
+    return this._layers[name]?.style ?? this.style;
+  }
+
+  private _getLayerFilter(name: string): FilterFunction | false {
+    return this._layers[name]?.filter ?? this._filter;
+  }
+
+  private _getStyleCacheKey(
+    feature: VectorTileFeature,
+    featureId: string | number,
+    layerName: string,
+    zoom: number,
+  ): string {
     const isSelected = this._selectedFeatureIds.has(featureId);
     const isHovered = this._hoveredFeatureIds.has(featureId);
     const state = (isSelected ? 'S' : '') + (isHovered ? 'H' : '');
     const featureHash = this._createFeatureHash(feature);
-    return `${this._styleCacheVersion}:${featureId}:${featureHash}:${state}`;
+    const featureState = this._featureStates.get(featureId);
+    const featureStateKey = featureState ? JSON.stringify(featureState) : '';
+    return `${this._styleCacheVersion}:${layerName}:${featureId}:${featureHash}:${state}:${zoom}:${featureStateKey}`;
   }
 
   private _createFeatureHash(feature: VectorTileFeature): string {
@@ -1401,27 +2132,45 @@ export class MVTSource implements google.maps.MapType {
   /**
    * Get current style for feature with selection/hover state
    */
-  getStyleForFeature(feature: VectorTileFeature, featureId: string | number): FeatureStyle {
+  getStyleForFeature(
+    feature: VectorTileFeature,
+    featureId: string | number,
+    layerName = '',
+    zoom = this.map.getZoom() || 0,
+  ): FeatureStyle {
     const isSelected = this._selectedFeatureIds.has(featureId);
     const isHovered = this._hoveredFeatureIds.has(featureId);
-    const baseStyle = typeof this.style === 'function' ? this.style(feature) : this.style;
+    const style = this._getLayerStyle(layerName);
     
     // Fast path: static style with no state changes
-    if (typeof this.style !== 'function' && !isSelected && !isHovered) {
-      return baseStyle;
+    if (typeof style !== 'function' && !isSelected && !isHovered) {
+      return style;
     }
 
     // Fast path: only use cache if we have significant load (>100 features or function styles)
-    const shouldUseCache = typeof this.style === 'function' || this._featureIndex.size > 100;
+    const shouldUseCache = typeof style === 'function' || this._featureIndex.size > 100;
+    const cacheKey = shouldUseCache ? this._getStyleCacheKey(feature, featureId, layerName, zoom) : '';
     
     if (shouldUseCache) {
-      const cacheKey = this._getStyleCacheKey(feature, featureId);
       const cachedStyle = this._styleCache.get(cacheKey);
       if (cachedStyle) {
         return cachedStyle;
       }
     }
 
+    // The cache key covers every input of the style function
+    const baseStyle =
+      typeof style === 'function'
+        ? style(feature, {
+            feature,
+            layerName,
+            zoom,
+            selected: isSelected,
+            hovered: isHovered,
+            featureState: this.getFeatureState(featureId),
+          })
+        : style;
+
     let resultStyle = { ...baseStyle };
     delete resultStyle.selected;
     delete resultStyle.hover;
@@ -1451,7 +2200,7 @@ export class MVTSource implements google.maps.MapType {
 
     if (shouldUseCache) {
       this._cleanupStyleCache();
-      this._styleCache.set(this._getStyleCacheKey(feature, featureId), resultStyle);
+      this._styleCache.set(cacheKey, resultStyle);
     }
 
     return resultStyle;
@@ -1462,14 +2211,18 @@ export class MVTSource implements google.maps.MapType {
    */
   clearTile(canvas: HTMLCanvasElement): void {
     const context = canvas.getContext('2d')!;
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
     context.clearRect(0, 0, canvas.width, canvas.height);
+    context.restore();
   }
 
   /**
    * Set URL for tile source
    */
-  setUrl(url: string, redrawTiles = true): void {
+  setUrl(url: TileUrl, redrawTiles = true): void {
     this._url = url;
+    this._decodedTileCache.clear();
     this._resetMVTLayers();
 
     if (redrawTiles) {
@@ -1477,6 +2230,24 @@ export class MVTSource implements google.maps.MapType {
     }
   }
 
+  /**
+   * Replace the headers provider, used from the next tile request
+   */
+  setHeadersProvider(headersProvider: HeadersProvider | undefined): void {
+    this._headersProvider = headersProvider;
+    this._headersRefresh = undefined;
+  }
+
+  /**
+   * Remove this source's tiles from the persistent cache
+   */
+  clearPersistentCache(): Promise<void> {
+    if (!this._persistentCache) {
+      return Promise.resolve();
+    }
+    return this._persistentCache.clear(this._getPersistentCacheNamespace());
+  }
+
   /**
    * Set visible layers
    */
@@ -1494,6 +2265,13 @@ export class MVTSource implements google.maps.MapType {
     return this._visibleLayers;
   }
 
+  /**
+   * Get the vector layers described by the source metadata
+   */
+  getVectorLayers(): TileJSONVectorLayer[] {
+    return this._vectorLayers;
+  }
+
   /**
    * Set tile availability manifest
    */
@@ -1505,7 +2283,7 @@ export class MVTSource implements google.maps.MapType {
   /**
    * Get current resolved manifest
    */
-  getTileAvailabilityManifest(): TileManifest | undefined {
+  getTileAvailabilityManifest(): TileAvailabilityManifest | undefined {
     return this._resolvedManifest;
   }
 
@@ -2275,9 +3053,37 @@ export class MVTSource implements google.maps.MapType {
     });
     this._pendingReplacementRequests.clear();
 
+    // Abort queued and in-flight tile requests
+    this._requestQueue.clear();
+    this._tileRequests.forEach((request) => {
+      request.controller.abort();
+    });
+    this._tileRequests.clear();
+    this._decodedTileCache.clear();
+    this._persistentCache?.close();
+    this._revalidateTiles.clear();
+    this._tileWorker?.dispose();
+    if (this._ownsDecodeWorker) {
+      this._decodeWorker?.terminate();
+    }
+    this._tileRetryTimers.forEach((timer) => {
+      clearTimeout(timer);
+    });
+    this._tileRetryTimers.clear();
+    this._failedTiles.clear();
+    if (this._refreshTimer) {
+      clearInterval(this._refreshTimer);
+      this._refreshTimer = undefined;
+    }
+    this._pixelRatioQuery?.removeEventListener('change', this._onPixelRatioChange);
+    this._pixelRatioQuery = undefined;
+
     this._featureIndex.clear();
     this._selectedFeatureIds.clear();
     this._hoveredFeatureIds.clear();
+    this._featureStates.clear();
+    this._labelRenderer.clear();
+    this._iconCache.clear();
     this._tilesDrawn = {};
     this._visibleTiles = {};
     this._replacedFeatures = {};
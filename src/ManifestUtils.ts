@@ -0,0 +1,255 @@
+import { bboxPolygon, booleanIntersects, booleanWithin, polygon } from '@turf/turf';
+import { Mercator } from './Mercator';
+import { mergeRanges, parseColumnKey } from './TileAvailabilityIndex';
+import { TileAvailabilityManifest, TileCoord, TileManifest } from './types';
+
+/**
+ * Square block of 2^level x 2^level tiles, in block coordinates
+ */
+interface TileBlock {
+  level: number;
+  x: number;
+  y: number;
+}
+
+type Coverage = GeoJSON.Polygon | GeoJSON.MultiPolygon | GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>;
+
+enum TileCoverage {
+  None,
+  Partial,
+  Full,
+}
+
+const isRange = (range: unknown): boolean =>
+  Array.isArray(range) && range.length === 2 && typeof range[0] === 'number' && typeof range[1] === 'number';
+
+const isZoomLevel = (zoomLevel: string): boolean => /^\d+$/.test(zoomLevel);
+
+/**
+ * Collapse complete sets of four sibling blocks into their parent, level by level
+ */
+function compactBlocks(tiles: { x: number; y: number }[]): TileBlock[] {
+  const blocks: TileBlock[] = [];
+  let level = 0;
+  let current = new Set(tiles.map((tile) => `${tile.x}:${tile.y}`));
+
+  while (current.size > 0) {
+    const siblings = new Map<string, number>();
+    current.forEach((key) => {
+      const [x, y] = key.split(':').map(Number);
+      const parentKey = `${x >> 1}:${y >> 1}`;
+      siblings.set(parentKey, (siblings.get(parentKey) || 0) + 1);
+    });
+
+    const next = new Set<string>();
+    current.forEach((key) => {
+      const [x, y] = key.split(':').map(Number);
+      const parentKey = `${x >> 1}:${y >> 1}`;
+      if (siblings.get(parentKey) === 4) {
+        next.add(parentKey);
+      } else {
+        blocks.push({ level, x, y });
+      }
+    });
+
+    current = next;
+    level++;
+  }
+  return blocks;
+}
+
+/**
+ * Turn the blocks of one zoom level into "x" or "x_start-x_end" columns of merged y ranges
+ */
+function blocksToColumns(blocks: TileBlock[]): TileManifest[string] {
+  const columns = new Map<string, { x0: number; x1: number; ranges: [number, number][] }>();
+  blocks.forEach(({ level, x, y }) => {
+    const x0 = x << level;
+    const x1 = ((x + 1) << level) - 1;
+    const key = x0 === x1 ? `${x0}` : `${x0}-${x1}`;
+    const column = columns.get(key) || { x0, x1, ranges: [] };
+    column.ranges.push([y << level, ((y + 1) << level) - 1]);
+    columns.set(key, column);
+  });
+
+  // Join neighbouring columns with identical ranges
+  const merged: { x0: number; x1: number; ranges: [number, number][] }[] = [];
+  Array.from(columns.values())
+    .map((column) => ({ ...column, ranges: mergeRanges(column.ranges) }))
+    .sort((a, b) => a.x0 - b.x0 || a.x1 - b.x1)
+    .forEach((column) => {
+      const last = merged[merged.length - 1];
+      if (last && last.x1 + 1 === column.x0 && JSON.stringify(last.ranges) === JSON.stringify(column.ranges)) {
+        last.x1 = column.x1;
+      } else {
+        merged.push(column);
+      }
+    });
+
+  const result: TileManifest[string] = {};
+  merged.forEach(({ x0, x1, ranges }) => {
+    result[x0 === x1 ? `${x0}` : `${x0}-${x1}`] = ranges;
+  });
+  return result;
+}
+
+/**
+ * How much of a tile a set of polygons covers
+ */
+function getTileCoverage(tile: TileCoord, polygons: GeoJSON.Position[][][]): TileCoverage {
+  const { sw, ne } = Mercator.getTileBounds(tile);
+  const tilePolygon = bboxPolygon([sw.lng, sw.lat, ne.lng, ne.lat]);
+  let coverage = TileCoverage.None;
+
+  for (const rings of polygons) {
+    if (booleanIntersects(tilePolygon, polygon(rings))) {
+      const [outer, ...holes] = rings;
+      const insideOuter = booleanWithin(tilePolygon, polygon([outer]));
+      if (insideOuter && !holes.some((hole) => booleanIntersects(tilePolygon, polygon([hole])))) {
+        return TileCoverage.Full;
+      }
+      coverage = TileCoverage.Partial;
+    }
+  }
+  return coverage;
+}
+
+/**
+ * Utilities for tile availability manifests
+ */
+export const ManifestUtils = {
+  createManifestFetcher: (apiUrl: string, headers?: Record<string, string>) => {
+    return async (): Promise<TileAvailabilityManifest> => {
+      const response = await fetch(apiUrl, {
+        method: 'GET',
+        headers: { 'Content-Type': 'application/json', ...headers },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch tile manifest: ${response.status} ${response.statusText}`);
+      }
+
+      return response.json();
+    };
+  },
+
+  validateManifest: (manifest: unknown): manifest is TileAvailabilityManifest => {
+    if (!manifest || typeof manifest !== 'object') {
+      return false;
+    }
+
+    const fields = manifest as Record<string, unknown>;
+    if (fields.type === 'bbox') {
+      const { bounds } = fields;
+      const boxes = Array.isArray(bounds) && Array.isArray(bounds[0]) ? bounds : [bounds];
+      return boxes.every(
+        (box: unknown) => Array.isArray(box) && box.length === 4 && box.every((value) => typeof value === 'number'),
+      );
+    }
+
+    if (fields.type === 'extent') {
+      const { zooms } = fields;
+      if (!zooms || typeof zooms !== 'object') {
+        return false;
+      }
+      return Object.entries(zooms).every(
+        ([zoomLevel, extent]: [string, unknown]) =>
+          isZoomLevel(zoomLevel) &&
+          !!extent &&
+          ['minX', 'maxX', 'minY', 'maxY'].every((key) => typeof (extent as Record<string, unknown>)[key] === 'number'),
+      );
+    }
+
+    for (const [zoomLevel, xCoords] of Object.entries(fields)) {
+      if (!isZoomLevel(zoomLevel) || !xCoords || typeof xCoords !== 'object') {
+        return false;
+      }
+
+      for (const [xCoord, yRanges] of Object.entries(xCoords as Record<string, unknown>)) {
+        if (!parseColumnKey(xCoord) || !Array.isArray(yRanges)) {
+          return false;
+        }
+
+        for (const yRange of yRanges) {
+          if (!isRange(yRange)) {
+            return false;
+          }
+        }
+      }
+    }
+
+    return true;
+  },
+
+  /**
+   * Build a compact range manifest from a list of available tiles
+   *
+   * Complete quads of sibling tiles are collapsed into their parent
+   * recursively, so covered areas become a few "x_start-x_end" columns.
+   */
+  fromTileCoords: (tiles: TileCoord[]): TileManifest => {
+    const tilesByZoom = new Map<number, TileCoord[]>();
+    tiles.forEach((tile) => {
+      const zoomTiles = tilesByZoom.get(tile.z) || [];
+      zoomTiles.push(tile);
+      tilesByZoom.set(tile.z, zoomTiles);
+    });
+
+    const manifest: TileManifest = {};
+    Array.from(tilesByZoom.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([z, zoomTiles]) => {
+        manifest[z] = blocksToColumns(compactBlocks(zoomTiles));
+      });
+    return manifest;
+  },
+
+  /**
+   * Build a range manifest of the tiles touching a GeoJSON polygon coverage
+   *
+   * Walks the tile quadtree from the world tile, only descending into tiles
+   * crossing the polygon edges. Tiles fully inside are emitted as blocks.
+   */
+  fromPolygon: (coverage: Coverage, minZoom: number, maxZoom: number): TileManifest => {
+    const geometry = coverage.type === 'Feature' ? coverage.geometry : coverage;
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    const blocksByZoom = new Map<number, TileBlock[]>();
+    const addBlock = (z: number, block: TileBlock): void => {
+      const blocks = blocksByZoom.get(z) || [];
+      blocks.push(block);
+      blocksByZoom.set(z, blocks);
+    };
+
+    const visit = (tile: TileCoord): void => {
+      const tileCoverage = getTileCoverage(tile, polygons);
+      if (tileCoverage === TileCoverage.None) {
+        return;
+      }
+
+      if (tileCoverage === TileCoverage.Full) {
+        for (let z = Math.max(tile.z, minZoom); z <= maxZoom; z++) {
+          addBlock(z, { level: z - tile.z, x: tile.x, y: tile.y });
+        }
+        return;
+      }
+
+      if (tile.z >= minZoom) {
+        addBlock(tile.z, { level: 0, x: tile.x, y: tile.y });
+      }
+      if (tile.z < maxZoom) {
+        for (let i = 0; i < 4; i++) {
+          visit({ z: tile.z + 1, x: tile.x * 2 + (i & 1), y: tile.y * 2 + (i >> 1) });
+        }
+      }
+    };
+    visit({ z: 0, x: 0, y: 0 });
+
+    const manifest: TileManifest = {};
+    Array.from(blocksByZoom.entries())
+      .sort(([a], [b]) => a - b)
+      .forEach(([z, blocks]) => {
+        manifest[z] = blocksToColumns(blocks);
+      });
+    return manifest;
+  },
+};
@@ -0,0 +1,407 @@
+import { VectorTileFeature } from '@mapbox/vector-tile';
+import { ColorUtils } from './ColorUtils';
+import { StyleExpressionError, StyleExpressions } from './StyleExpressions';
+import {
+  FeatureState,
+  FeatureStyle,
+  FeatureStyleFunction,
+  LayerOptions,
+  MapLibreStyle,
+  MapLibreStyleLayer,
+  MapLibreStyleSource,
+  StyleExpression,
+} from './types';
+
+type CompiledExpression = (feature: VectorTileFeature, zoom: number, featureState?: FeatureState) => unknown;
+
+/**
+ * Style layer converted to a matcher and a style for the features of its source layer
+ */
+interface StyleRule {
+  id: string;
+  minZoom: number;
+  maxZoom: number;
+  matches: (feature: VectorTileFeature, zoom: number) => boolean;
+  style: FeatureStyleFunction;
+}
+
+/**
+ * Result of converting a style document for one of its vector sources
+ */
+export interface MapLibreStyleConversion {
+  sourceId: string;
+  source: MapLibreStyleSource;
+  visibleLayers: string[];
+  layers: Record<string, LayerOptions>;
+  warnings: string[];
+}
+
+// Paint properties mapped to FeatureStyle keys, with MapLibre defaults
+const PAINT_PROPERTIES: Record<string, Record<string, keyof FeatureStyle>> = {
+  fill: { 'fill-color': 'fillStyle', 'fill-outline-color': 'strokeStyle' },
+  line: {
+    'line-color': 'strokeStyle',
+    'line-width': 'lineWidth',
+    'line-dasharray': 'lineDash',
+    'line-offset': 'lineOffset',
+  },
+  circle: {
+    'circle-color': 'fillStyle',
+    'circle-radius': 'radius',
+    'circle-stroke-color': 'strokeStyle',
+    'circle-stroke-width': 'lineWidth',
+  },
+};
+
+// Layout properties mapped to FeatureStyle keys
+const LAYOUT_PROPERTIES: Record<string, Record<string, keyof FeatureStyle>> = {
+  fill: {},
+  line: { 'line-cap': 'lineCap', 'line-join': 'lineJoin', 'line-miter-limit': 'miterLimit' },
+  circle: {},
+};
+
+// Opacity properties applied to the alpha of a color
+const OPACITY_PROPERTIES: Record<string, Record<string, keyof FeatureStyle>> = {
+  fill: { 'fill-opacity': 'fillStyle' },
+  line: { 'line-opacity': 'strokeStyle' },
+  circle: { 'circle-opacity': 'fillStyle', 'circle-stroke-opacity': 'strokeStyle' },
+};
+
+const DEFAULT_STYLES: Record<string, FeatureStyle> = {
+  fill: { fillStyle: '#000000' },
+  line: { strokeStyle: '#000000', lineWidth: 1, lineCap: 'butt', lineJoin: 'miter', miterLimit: 2 },
+  circle: { fillStyle: '#000000', radius: 5, strokeStyle: 'transparent' },
+};
+
+const LEGACY_COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+
+/**
+ * Multiply the alpha of a color by an opacity
+ */
+function applyOpacity(color: string, opacity: number): string {
+  const rgb = ColorUtils.parseRgb(color);
+  if (!rgb) {
+    return color;
+  }
+  return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${(rgb.a ?? 1) * opacity})`;
+}
+
+/**
+ * Check if a filter uses the legacy `[operator, key, value]` syntax, following the MapLibre heuristics
+ */
+function isLegacyFilter(filter: unknown): boolean {
+  if (!Array.isArray(filter) || filter.length === 0) {
+    return false;
+  }
+
+  switch (filter[0]) {
+    case 'has':
+      return filter[1] === '$type' || filter[1] === '$id';
+    case 'in':
+      return filter.length >= 3 && typeof filter[1] === 'string' && !Array.isArray(filter[2]);
+    case '!in':
+    case '!has':
+    case 'none':
+      return true;
+    case 'all':
+    case 'any':
+      return filter.slice(1).some((child) => typeof child !== 'boolean' && isLegacyFilter(child));
+    default:
+      return (
+        LEGACY_COMPARISONS.includes(filter[0]) &&
+        filter.length === 3 &&
+        typeof filter[1] === 'string' &&
+        !Array.isArray(filter[2])
+      );
+  }
+}
+
+/**
+ * Convert a legacy filter to an expression
+ */
+function convertLegacyFilter(filter: unknown[]): StyleExpression {
+  const [operator, key, ...values] = filter as [string, string, ...StyleExpression[]];
+  const getValue = (name: string): StyleExpression => {
+    if (name === '$id') {
+      throw new StyleExpressionError('Filtering on $id is not supported', 'filter');
+    }
+    return name === '$type' ? ['geometry-type'] : ['get', name];
+  };
+
+  switch (operator) {
+    case 'all':
+    case 'any':
+      return [operator, ...filter.slice(1).map((child) => convertFilter(child))];
+    case 'none':
+      return ['!', ['any', ...filter.slice(1).map((child) => convertFilter(child))]];
+    case 'has':
+      return key === '$type' ? true : ['has', key];
+    case '!has':
+      return ['!', ['has', key]];
+    case 'in':
+    case '!in': {
+      const match: StyleExpression = values.length > 0 ? ['match', getValue(key), values, true, false] : false;
+      return operator === 'in' ? match : ['!', match];
+    }
+    default:
+      return [operator, getValue(key), values[0]];
+  }
+}
+
+/**
+ * Convert a filter in either syntax to an expression
+ */
+function convertFilter(filter: unknown): StyleExpression {
+  return isLegacyFilter(filter) ? convertLegacyFilter(filter as unknown[]) : (filter as StyleExpression);
+}
+
+/**
+ * Convert a legacy `{ stops }` function to an expression
+ */
+function convertFunction(value: Record<string, unknown>, path: string): StyleExpression {
+  const stops = value.stops as [unknown, StyleExpression][] | undefined;
+  if (!Array.isArray(stops) || stops.length === 0 || stops.some((stop) => typeof stop[0] === 'object')) {
+    throw new StyleExpressionError('Only zoom or property functions with stops are supported', path);
+  }
+
+  const input: StyleExpression = typeof value.property === 'string' ? ['get', value.property] : ['zoom'];
+  const type = value.type || 'exponential';
+  const fallback = (value.default ?? null) as StyleExpression;
+
+  switch (type) {
+    case 'identity':
+      return input;
+    case 'categorical':
+      return ['match', input, ...stops.flatMap(([stop, output]) => [stop as StyleExpression, output]), fallback];
+    case 'interval':
+      return ['step', input, stops[0][1], ...stops.slice(1).flatMap(([stop, output]) => [stop as number, output])];
+    default:
+      return [
+        'interpolate',
+        ['exponential', typeof value.base === 'number' ? value.base : 1],
+        input,
+        ...stops.flatMap(([stop, output]) => [stop as number, output]),
+      ];
+  }
+}
+
+/**
+ * Convert and compile an expression, collecting a warning and returning undefined when it can't be used
+ */
+function tryCompile(
+  layerId: string,
+  path: string,
+  convert: () => StyleExpression,
+  warnings: string[],
+): CompiledExpression | undefined {
+  try {
+    return StyleExpressions.compile(convert(), path);
+  } catch (error) {
+    if (error instanceof StyleExpressionError) {
+      warnings.push(`Layer "${layerId}": ${error.message}`);
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Convert a paint or layout value, either an expression, a legacy function or a constant array
+ */
+function convertPaintValue(value: unknown, path: string): StyleExpression {
+  if (Array.isArray(value) && value.every((item) => typeof item === 'number')) {
+    return ['literal', value];
+  }
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? convertFunction(value as Record<string, unknown>, path)
+    : (value as StyleExpression);
+}
+
+/**
+ * Convert one style layer to a rule, or return undefined when it can't be drawn
+ */
+function convertLayer(layer: MapLibreStyleLayer, warnings: string[]): StyleRule | undefined {
+  const properties = PAINT_PROPERTIES[layer.type];
+  const opacities = OPACITY_PROPERTIES[layer.type];
+  const values: [keyof FeatureStyle, CompiledExpression][] = [];
+  const alphas: [keyof FeatureStyle, CompiledExpression][] = [];
+  const defaults: FeatureStyle = { ...DEFAULT_STYLES[layer.type] };
+
+  Object.keys(layer.paint || {}).forEach((name) => {
+    const key = properties[name] || opacities[name];
+    if (!key) {
+      warnings.push(`Layer "${layer.id}": paint property "${name}" is not supported`);
+      return;
+    }
+    const compiled = tryCompile(layer.id, name, () => convertPaintValue(layer.paint?.[name], name), warnings);
+    if (compiled) {
+      (properties[name] ? values : alphas).push([key, compiled]);
+    }
+  });
+  Object.keys(layer.layout || {})
+    .filter((name) => name !== 'visibility')
+    .forEach((name) => {
+      const key = LAYOUT_PROPERTIES[layer.type][name];
+      if (!key) {
+        warnings.push(`Layer "${layer.id}": layout property "${name}" is not supported`);
+        return;
+      }
+      const compiled = tryCompile(layer.id, name, () => convertPaintValue(layer.layout?.[name], name), warnings);
+      if (compiled) {
+        values.push([key, compiled]);
+      }
+    });
+
+  // Circles are stroked only when a stroke width is set
+  if (layer.type === 'circle' && layer.paint?.['circle-stroke-width'] !== undefined) {
+    defaults.strokeStyle = '#000000';
+  }
+
+  let filter: CompiledExpression | undefined;
+  if (layer.filter !== undefined) {
+    filter = tryCompile(layer.id, 'filter', () => convertFilter(layer.filter), warnings);
+    if (!filter) {
+      return undefined;
+    }
+  }
+
+  const minZoom = layer.minzoom ?? 0;
+  const maxZoom = layer.maxzoom ?? Infinity;
+
+  return {
+    id: layer.id,
+    minZoom,
+    maxZoom,
+    // Like MapLibre, maxzoom is exclusive
+    matches: (feature, zoom): boolean => zoom >= minZoom && zoom < maxZoom && (!filter || !!filter(feature, zoom)),
+    style: (feature, context): FeatureStyle => {
+      const style: Record<string, unknown> = { ...defaults };
+      values.forEach(([key, evaluate]) => {
+        const value = evaluate(feature, context.zoom, context.featureState);
+        if (value !== null && value !== undefined) {
+          style[key] = value;
+        }
+      });
+      alphas.forEach(([key, evaluate]) => {
+        const opacity = evaluate(feature, context.zoom, context.featureState);
+        if (typeof opacity === 'number' && typeof style[key] === 'string') {
+          style[key] = applyOpacity(style[key] as string, opacity);
+        }
+      });
+      // Dash lengths are in line widths
+      if (Array.isArray(style.lineDash)) {
+        style.lineDash = style.lineDash.map((length: number) => length * ((style.lineWidth as number) ?? 1));
+      }
+      return style as FeatureStyle;
+    },
+  };
+}
+
+/**
+ * Fetch a style document, or pass through an already loaded one
+ */
+export async function loadMapLibreStyle(
+  style: MapLibreStyle | string,
+  headers?: Record<string, string>,
+): Promise<MapLibreStyle> {
+  if (typeof style !== 'string') {
+    return style;
+  }
+
+  const response = await fetch(style, {
+    method: 'GET',
+    headers: { Accept: 'application/json', ...headers },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch style: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Convert the layers of a MapLibre / Mapbox GL style drawing one vector source
+ *
+ * Fill, line and circle layers become per-layer styles, filters and zoom
+ * ranges. Each feature is drawn once, with the topmost style layer whose filter
+ * and zoom range match it. Anything that can't be converted is
+ * skipped and reported in `warnings`.
+ */
+export function convertMapLibreStyle(style: MapLibreStyle, sourceId?: string): MapLibreStyleConversion {
+  const warnings: string[] = [];
+  const id = sourceId ?? Object.keys(style.sources || {}).find((key) => style.sources[key].type === 'vector');
+  const source = id !== undefined ? style.sources?.[id] : undefined;
+  if (id === undefined || !source || source.type !== 'vector') {
+    throw new Error(sourceId ? `Style has no vector source "${sourceId}"` : 'Style has no vector source');
+  }
+
+  const rules = new Map<string, StyleRule[]>();
+  (style.layers || []).forEach((layer) => {
+    if (layer.source !== id) {
+      if (layer.source === undefined && layer.type !== 'background') {
+        warnings.push(`Layer "${layer.id}": no source`);
+      } else if (layer.type !== 'background') {
+        warnings.push(`Layer "${layer.id}": source "${layer.source}" is not converted`);
+      } else {
+        warnings.push(`Layer "${layer.id}": layer type "background" is not supported`);
+      }
+      return;
+    }
+    if (!PAINT_PROPERTIES[layer.type]) {
+      warnings.push(`Layer "${layer.id}": layer type "${layer.type}" is not supported`);
+      return;
+    }
+    if (layer.layout?.visibility === 'none') {
+      return;
+    }
+
+    const sourceLayer = layer['source-layer'];
+    const rule = sourceLayer ? convertLayer(layer, warnings) : undefined;
+    if (!sourceLayer) {
+      warnings.push(`Layer "${layer.id}": no source-layer`);
+    }
+    if (sourceLayer && rule) {
+      rules.set(sourceLayer, [...(rules.get(sourceLayer) || []), rule]);
+    }
+  });
+
+  rules.forEach((layerRules, sourceLayer) => {
+    if (layerRules.length > 1) {
+      warnings.push(
+        `Layers ${layerRules.map((rule) => `"${rule.id}"`).join(', ')} share source layer "${sourceLayer}": ` +
+          'features are drawn once, with the topmost matching layer',
+      );
+    }
+  });
+
+  const layers: Record<string, LayerOptions> = {};
+  rules.forEach((layerRules, sourceLayer) => {
+    const findRule = (feature: VectorTileFeature, zoom: number): StyleRule | undefined => {
+      for (let i = layerRules.length - 1; i >= 0; i--) {
+        if (layerRules[i].matches(feature, zoom)) {
+          return layerRules[i];
+        }
+      }
+      return undefined;
+    };
+    const minZoom = Math.min(...layerRules.map((rule) => rule.minZoom));
+    const maxZoom = Math.max(...layerRules.map((rule) => rule.maxZoom));
+
+    layers[sourceLayer] = {
+      style: (feature, context): FeatureStyle => findRule(feature, context.zoom)?.style(feature, context) || {},
+      filter: (feature, tileContext): boolean => !!findRule(feature, tileContext.zoom),
+      ...(minZoom > 0 ? { minZoom } : {}),
+      // Tile zoom levels are integers, the last one drawn is below the exclusive maxzoom
+      ...(maxZoom !== Infinity ? { maxZoom: Math.ceil(maxZoom) - 1 } : {}),
+    };
+  });
+
+  return {
+    sourceId: id,
+    source,
+    visibleLayers: Array.from(rules.keys()),
+    layers,
+    warnings,
+  };
+}
@@ -1,5 +1,8 @@
 import { Point, TileCoord, TileBounds, LatLng, MVTMouseEvent } from './types';
 
+// Longest stretch of an offset line corner, in offsets
+const MAX_OFFSET_MITER = 2;
+
 /**
  * Mercator projection utilities for coordinate transformations
  */
@@ -202,4 +205,38 @@ export class Mercator {
 
     return Math.sqrt(dx * dx + dy * dy);
   }
+
+  /**
+   * Offset a line perpendicular to its direction, positive offsets to the right on screen
+   */
+  static offsetLine(line: Point[], offset: number): Point[] {
+    const points = line.filter((point, i) => i === 0 || point.x !== line[i - 1].x || point.y !== line[i - 1].y);
+    if (!offset || points.length < 2) {
+      return points;
+    }
+
+    // Unit normals of the segments, pointing right of their direction
+    const normals: Point[] = [];
+    for (let i = 0; i < points.length - 1; i++) {
+      const dx = points[i + 1].x - points[i].x;
+      const dy = points[i + 1].y - points[i].y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      normals.push({ x: -dy / length, y: dx / length });
+    }
+
+    return points.map((point, i) => {
+      const previous = normals[i - 1] || normals[i];
+      const next = normals[i] || normals[i - 1];
+      const nx = previous.x + next.x;
+      const ny = previous.y + next.y;
+      const length = Math.sqrt(nx * nx + ny * ny);
+      if (length < 1e-6) {
+        return { x: point.x + next.x * offset, y: point.y + next.y * offset };
+      }
+
+      // Stretch the bisector to keep the offset from both segments, capped on sharp turns
+      const scale = Math.min(length / (nx * next.x + ny * next.y), MAX_OFFSET_MITER) / length;
+      return { x: point.x + nx * scale * offset, y: point.y + ny * scale * offset };
+    });
+  }
 }
@@ -0,0 +1,434 @@
+import { MVTSourceOptions, PMTilesCompression, PMTilesHeader, PMTilesSource, TileCoord, TileLoader } from './types';
+import { Compression } from './Compression';
+import { TileLoadError } from './TileLoader';
+
+interface DirectoryEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+const HEADER_SIZE = 127;
+// The spec guarantees the header and root directory fit in the first 16 KiB
+const INITIAL_FETCH_SIZE = 16384;
+const MAX_DIRECTORY_DEPTH = 4;
+const MVT_TILE_TYPE = 1;
+
+/**
+ * Convert tile coordinates to a PMTiles tile ID (position on the Hilbert curve)
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  if (z > 26) {
+    throw new Error(`Tile zoom level ${z} exceeds PMTiles maximum of 26`);
+  }
+  const n = 2 ** z;
+  if (x < 0 || y < 0 || x >= n || y >= n) {
+    throw new Error(`Tile ${z}/${x}/${y} is out of range`);
+  }
+
+  // Number of tiles in all lower zoom levels
+  let tileId = (4 ** z - 1) / 3;
+
+  let tx = x;
+  let ty = y;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (tx & s) > 0 ? 1 : 0;
+    const ry = (ty & s) > 0 ? 1 : 0;
+    tileId += s * s * ((3 * rx) ^ ry);
+
+    // Rotate the quadrant
+    if (ry === 0) {
+      if (rx === 1) {
+        tx = s - 1 - tx;
+        ty = s - 1 - ty;
+      }
+      const t = tx;
+      tx = ty;
+      ty = t;
+    }
+  }
+  return tileId;
+}
+
+/**
+ * Read-only access to a PMTiles v3 archive over HTTP range requests or from a local Blob/ArrayBuffer
+ */
+export class PMTilesArchive {
+  private _source: PMTilesSource;
+  private _headers: Record<string, string>;
+  private _header: Promise<PMTilesHeader> | undefined;
+  private _directoryCache: Map<string, Promise<DirectoryEntry[]>> = new Map();
+
+  private static readonly MAX_DIRECTORY_CACHE_SIZE = 64;
+
+  constructor(source: PMTilesSource, headers: Record<string, string> = {}) {
+    this._source = source;
+    this._headers = headers;
+  }
+
+  /**
+   * Read and cache the archive header
+   *
+   * `headers` are added to the archive headers for this read only.
+   */
+  getHeader(headers?: Record<string, string>): Promise<PMTilesHeader> {
+    if (!this._header) {
+      this._header = this._readBytes(0, INITIAL_FETCH_SIZE, undefined, headers).then((buffer) => {
+        const header = PMTilesArchive.parseHeader(buffer);
+
+        // Seed the directory cache with the root directory from the initial read
+        const rootEnd = header.rootDirectoryOffset + header.rootDirectoryLength;
+        if (rootEnd <= buffer.byteLength) {
+          const key = `${header.rootDirectoryOffset}:${header.rootDirectoryLength}`;
+          const root = this._parseDirectory(
+            buffer.slice(header.rootDirectoryOffset, rootEnd),
+            header.internalCompression,
+          );
+          // Drop a root directory that fails to parse so the next tile reads it again
+          root.catch(() => {
+            this._directoryCache.delete(key);
+          });
+          this._directoryCache.set(key, root);
+        }
+        return header;
+      });
+
+      // Allow a later call to retry after a failed read
+      this._header.catch(() => {
+        this._header = undefined;
+      });
+    }
+    return this._header;
+  }
+
+  /**
+   * Read the JSON metadata of the archive
+   */
+  async getMetadata(): Promise<Record<string, unknown>> {
+    const header = await this.getHeader();
+    if (header.metadataLength === 0) {
+      return {};
+    }
+
+    const data = await this._decompress(
+      await this._readBytes(header.metadataOffset, header.metadataLength),
+      header.internalCompression,
+    );
+    return JSON.parse(PMTilesArchive._decodeText(new Uint8Array(data)));
+  }
+
+  /**
+   * Source options derived from the archive header
+   */
+  async getSourceOptions(): Promise<Partial<MVTSourceOptions>> {
+    const header = await this.getHeader();
+    return {
+      minZoom: header.minZoom,
+      sourceMaxZoom: header.maxZoom,
+      bounds: [header.minLon, header.minLat, header.maxLon, header.maxLat],
+    };
+  }
+
+  /**
+   * Get the decompressed tile data, or undefined if the archive has no such tile
+   *
+   * `headers` are added to the archive headers for the range requests of this tile.
+   */
+  async getTile(
+    z: number,
+    x: number,
+    y: number,
+    signal?: AbortSignal,
+    headers?: Record<string, string>,
+  ): Promise<ArrayBuffer | undefined> {
+    const header = await this.getHeader(headers);
+    if (header.tileType !== MVT_TILE_TYPE) {
+      throw new Error(`PMTiles archive does not contain vector tiles (tile type ${header.tileType})`);
+    }
+    if (z < header.minZoom || z > header.maxZoom) {
+      return undefined;
+    }
+
+    return this._findTile(
+      zxyToTileId(z, x, y),
+      header.rootDirectoryOffset,
+      header.rootDirectoryLength,
+      header,
+      0,
+      signal,
+      headers,
+    );
+  }
+
+  /**
+   * Look up a tile in a directory, descending into leaf directories
+   */
+  private async _findTile(
+    tileId: number,
+    directoryOffset: number,
+    directoryLength: number,
+    header: PMTilesHeader,
+    depth: number,
+    signal?: AbortSignal,
+    headers?: Record<string, string>,
+  ): Promise<ArrayBuffer | undefined> {
+    if (depth >= MAX_DIRECTORY_DEPTH) {
+      throw new Error(`PMTiles directory depth exceeded for tile ID ${tileId}`);
+    }
+
+    const directory = await this._getDirectory(directoryOffset, directoryLength, header, signal, headers);
+    const entry = PMTilesArchive._findEntry(directory, tileId);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Entries with a zero run length point to a leaf directory
+    if (entry.runLength === 0) {
+      return this._findTile(
+        tileId,
+        header.leafDirectoryOffset + entry.offset,
+        entry.length,
+        header,
+        depth + 1,
+        signal,
+        headers,
+      );
+    }
+
+    const data = await this._readBytes(header.tileDataOffset + entry.offset, entry.length, signal, headers);
+    return this._decompress(data, header.tileCompression);
+  }
+
+  /**
+   * Parse the fixed size little-endian archive header
+   */
+  static parseHeader(buffer: ArrayBuffer): PMTilesHeader {
+    if (buffer.byteLength < HEADER_SIZE) {
+      throw new Error('PMTiles header is truncated');
+    }
+
+    const view = new DataView(buffer);
+    const magic = PMTilesArchive._decodeText(new Uint8Array(buffer, 0, 7));
+    if (magic !== 'PMTiles') {
+      throw new Error('Not a PMTiles archive');
+    }
+
+    const specVersion = view.getUint8(7);
+    if (specVersion !== 3) {
+      throw new Error(`Unsupported PMTiles version ${specVersion}`);
+    }
+
+    const uint64 = (offset: number): number =>
+      view.getUint32(offset + 4, true) * 2 ** 32 + view.getUint32(offset, true);
+    const coordinate = (offset: number): number => view.getInt32(offset, true) / 1e7;
+
+    return {
+      specVersion,
+      rootDirectoryOffset: uint64(8),
+      rootDirectoryLength: uint64(16),
+      metadataOffset: uint64(24),
+      metadataLength: uint64(32),
+      leafDirectoryOffset: uint64(40),
+      leafDirectoryLength: uint64(48),
+      tileDataOffset: uint64(56),
+      tileDataLength: uint64(64),
+      numAddressedTiles: uint64(72),
+      numTileEntries: uint64(80),
+      numTileContents: uint64(88),
+      clustered: view.getUint8(96) === 1,
+      internalCompression: view.getUint8(97),
+      tileCompression: view.getUint8(98),
+      tileType: view.getUint8(99),
+      minZoom: view.getUint8(100),
+      maxZoom: view.getUint8(101),
+      minLon: coordinate(102),
+      minLat: coordinate(106),
+      maxLon: coordinate(110),
+      maxLat: coordinate(114),
+      centerZoom: view.getUint8(118),
+      centerLon: coordinate(119),
+      centerLat: coordinate(123),
+    };
+  }
+
+  private _getDirectory(
+    offset: number,
+    length: number,
+    header: PMTilesHeader,
+    signal?: AbortSignal,
+    headers?: Record<string, string>,
+  ): Promise<DirectoryEntry[]> {
+    const key = `${offset}:${length}`;
+    let directory = this._directoryCache.get(key);
+    if (!directory) {
+      if (this._directoryCache.size >= PMTilesArchive.MAX_DIRECTORY_CACHE_SIZE) {
+        // Remove oldest directory (simple FIFO approach), keeping the root
+        const rootKey = `${header.rootDirectoryOffset}:${header.rootDirectoryLength}`;
+        const oldestKey = Array.from(this._directoryCache.keys()).find((cachedKey) => cachedKey !== rootKey);
+        if (oldestKey !== undefined) {
+          this._directoryCache.delete(oldestKey);
+        }
+      }
+
+      // Directories are shared between tiles, so the read is not tied to one tile's signal
+      directory = this._readBytes(offset, length, undefined, headers).then((buffer) =>
+        this._parseDirectory(buffer, header.internalCompression),
+      );
+      directory.catch(() => {
+        this._directoryCache.delete(key);
+      });
+      this._directoryCache.set(key, directory);
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Tile request aborted', 'AbortError'));
+    }
+    return directory;
+  }
+
+  private async _parseDirectory(buffer: ArrayBuffer, compression: PMTilesCompression): Promise<DirectoryEntry[]> {
+    const bytes = new Uint8Array(await this._decompress(buffer, compression));
+    let position = 0;
+    const readVarint = (): number => {
+      let value = 0;
+      let multiplier = 1;
+      for (;;) {
+        if (position >= bytes.length) {
+          throw new Error('PMTiles directory is truncated');
+        }
+        const byte = bytes[position++];
+        value += (byte & 0x7f) * multiplier;
+        if (byte < 0x80) {
+          return value;
+        }
+        multiplier *= 128;
+      }
+    };
+
+    // Columns are stored one after another: tile ID deltas, run lengths, lengths, offsets
+    const count = readVarint();
+    const entries: DirectoryEntry[] = [];
+    let lastTileId = 0;
+    for (let i = 0; i < count; i++) {
+      lastTileId += readVarint();
+      entries.push({ tileId: lastTileId, offset: 0, length: 0, runLength: 1 });
+    }
+    entries.forEach((entry) => {
+      entry.runLength = readVarint();
+    });
+    entries.forEach((entry) => {
+      entry.length = readVarint();
+    });
+    entries.forEach((entry, i) => {
+      const value = readVarint();
+      // Zero means the data directly follows the previous entry
+      entry.offset = value === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : value - 1;
+    });
+    return entries;
+  }
+
+  /**
+   * Binary search for the last entry starting at or before the tile ID
+   */
+  private static _findEntry(entries: DirectoryEntry[], tileId: number): DirectoryEntry | undefined {
+    let low = 0;
+    let high = entries.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const difference = tileId - entries[middle].tileId;
+      if (difference > 0) {
+        low = middle + 1;
+      } else if (difference < 0) {
+        high = middle - 1;
+      } else {
+        return entries[middle];
+      }
+    }
+
+    if (high >= 0) {
+      const entry = entries[high];
+      // Leaf directory pointers cover every tile up to the next entry
+      if (entry.runLength === 0 || tileId - entry.tileId < entry.runLength) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  private _decompress(data: ArrayBuffer, compression: PMTilesCompression): Promise<ArrayBuffer> {
+    switch (compression) {
+      case PMTilesCompression.None:
+      case PMTilesCompression.Unknown:
+        return Promise.resolve(data);
+      case PMTilesCompression.Gzip:
+        return Compression.decompress(data, 'gzip');
+      default:
+        return Promise.reject(new Error(`Unsupported PMTiles compression ${compression}`));
+    }
+  }
+
+  private async _readBytes(
+    offset: number,
+    length: number,
+    signal?: AbortSignal,
+    headers?: Record<string, string>,
+  ): Promise<ArrayBuffer> {
+    const source = this._source;
+
+    if (source instanceof ArrayBuffer) {
+      return source.slice(offset, offset + length);
+    }
+
+    if (typeof source !== 'string') {
+      return PMTilesArchive._readBlob(source.slice(offset, offset + length));
+    }
+
+    const response = await fetch(source, {
+      headers: { ...this._headers, ...headers, Range: `bytes=${offset}-${offset + length - 1}` },
+      signal,
+    });
+
+    if (response.status === 200) {
+      // Server ignored the range header and sent the whole archive
+      const buffer = await response.arrayBuffer();
+      return buffer.slice(offset, offset + length);
+    }
+    if (response.status !== 206) {
+      throw new TileLoadError(`Failed to read PMTiles archive ${source}: ${response.status}`, response.status);
+    }
+    return response.arrayBuffer();
+  }
+
+  private static _readBlob(blob: Blob): Promise<ArrayBuffer> {
+    if (typeof blob.arrayBuffer === 'function') {
+      return blob.arrayBuffer();
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (): void => resolve(reader.result as ArrayBuffer);
+      reader.onerror = (): void => reject(reader.error);
+      reader.readAsArrayBuffer(blob);
+    });
+  }
+
+  private static _decodeText(bytes: Uint8Array): string {
+    if (typeof TextDecoder !== 'undefined') {
+      return new TextDecoder().decode(bytes);
+    }
+    return decodeURIComponent(escape(String.fromCharCode(...Array.from(bytes))));
+  }
+}
+
+/**
+ * Create a tile loader reading tiles from a PMTiles archive
+ *
+ * Tiles missing from the archive resolve to an empty tile.
+ */
+export function createPMTilesTileLoader(archive: PMTilesArchive): TileLoader {
+  return async (coord: TileCoord, signal: AbortSignal, headers: Record<string, string>): Promise<ArrayBuffer> => {
+    const data = await archive.getTile(coord.z, coord.x, coord.y, signal, headers);
+    return data || new ArrayBuffer(0);
+  };
+}
@@ -0,0 +1,329 @@
+import { CachedTile, PersistentCacheOptions, TileCoord, TileLoader, TileResponse } from './types';
+import { TileLoadError, toTileResponse } from './TileLoader';
+import { createLogger } from './DebugLogger';
+
+const TILE_STORE = 'tiles';
+const METADATA_STORE = 'metadata';
+const DB_VERSION = 2;
+const LOW_WATER_MARK = 0.8; // Eviction frees space down to this share of the quota
+
+/**
+ * Everything stored about a tile except its bytes, kept apart so bookkeeping never reads tile data
+ */
+type TileMetadata = Omit<CachedTile, 'data'>;
+
+/**
+ * IndexedDB backed store for raw tile bytes
+ *
+ * Entries expire after a TTL and are revalidated with their ETag/Last-Modified
+ * validators. Tile bytes and their metadata live in separate object stores, so
+ * access times and sizes are updated and scanned without touching the bytes.
+ * Once the stored size exceeds the quota the least recently used entries are
+ * evicted down to a low-water mark. All operations resolve quietly when
+ * IndexedDB is unavailable.
+ */
+export class PersistentTileCache {
+  private logger = createLogger('PersistentTileCache');
+  private _dbName: string;
+  private _ttl: number;
+  private _maxSize: number;
+  private _db: Promise<IDBDatabase | undefined> | undefined;
+  private _totalSize: number | undefined; // Estimate, recomputed on eviction
+
+  constructor(options: PersistentCacheOptions = {}) {
+    this._dbName = options.dbName || 'google-maps-vector-engine';
+    this._ttl = options.ttl !== undefined ? options.ttl : 24 * 60 * 60 * 1000;
+    this._maxSize = options.maxSize || 50 * 1024 * 1024;
+  }
+
+  /**
+   * Check if IndexedDB is available
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Get a cached tile, marking it as recently used
+   */
+  async get(namespace: string, coord: TileCoord): Promise<CachedTile | undefined> {
+    const key = PersistentTileCache.getKey(namespace, coord);
+    const record = await this._transaction('readonly', (tiles, metadata) => {
+      const dataRequest = tiles.get(key);
+      const metadataRequest = metadata.get(key);
+      return (): { tileMetadata?: TileMetadata; data?: ArrayBuffer } => ({
+        tileMetadata: metadataRequest.result,
+        data: dataRequest.result?.data,
+      });
+    });
+    const { tileMetadata, data } = record || {};
+    if (!tileMetadata || !data) {
+      return undefined;
+    }
+
+    // Only the small metadata record is rewritten
+    tileMetadata.accessedAt = Date.now();
+    this._transaction('readwrite', (_tiles, metadata) => {
+      metadata.put(tileMetadata);
+      return (): void => undefined;
+    });
+    return { ...tileMetadata, data };
+  }
+
+  /**
+   * Store tile bytes and their validators
+   */
+  async put(
+    namespace: string,
+    coord: TileCoord,
+    data: ArrayBuffer,
+    validators: { etag?: string; lastModified?: string } = {},
+  ): Promise<void> {
+    const now = Date.now();
+    const key = PersistentTileCache.getKey(namespace, coord);
+    const tileMetadata: TileMetadata = {
+      key,
+      namespace,
+      size: data.byteLength,
+      etag: validators.etag,
+      lastModified: validators.lastModified,
+      storedAt: now,
+      accessedAt: now,
+    };
+
+    await this._transaction('readwrite', (tiles, metadata) => {
+      tiles.put({ key, data });
+      metadata.put(tileMetadata);
+      return (): void => undefined;
+    });
+
+    if (this._totalSize !== undefined) {
+      this._totalSize += tileMetadata.size;
+    }
+    if (this._totalSize === undefined || this._totalSize > this._maxSize) {
+      await this._evict();
+    }
+  }
+
+  /**
+   * Check if a cached tile is past its TTL
+   */
+  isExpired(tile: CachedTile): boolean {
+    return Date.now() - tile.storedAt > this._ttl;
+  }
+
+  /**
+   * Remove cached tiles of one namespace, or all tiles
+   */
+  async clear(namespace?: string): Promise<void> {
+    this._totalSize = undefined;
+    await this._transaction('readwrite', (tiles, metadata) => {
+      if (namespace === undefined) {
+        tiles.clear();
+        metadata.clear();
+      } else {
+        PersistentTileCache._forEachCursor(
+          metadata.index('namespace').openKeyCursor(IDBKeyRange.only(namespace)),
+          (cursor) => {
+            tiles.delete(cursor.primaryKey);
+            metadata.delete(cursor.primaryKey);
+          },
+        );
+      }
+      return (): void => undefined;
+    });
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    const db = this._db;
+    this._db = undefined;
+    db?.then((database) => database?.close());
+  }
+
+  static getKey(namespace: string, coord: TileCoord): string {
+    return `${namespace}|${coord.z}/${coord.x}/${coord.y}`;
+  }
+
+  /**
+   * Delete the least recently used tiles once the cache exceeds the quota,
+   * down to the low-water mark so the next writes don't evict again
+   */
+  private async _evict(): Promise<void> {
+    const entries =
+      (await this._transaction('readonly', (_tiles, metadata) => {
+        const result: { key: string; size: number }[] = [];
+        PersistentTileCache._forEachCursor(metadata.index('accessedAt').openCursor(), (cursor) => {
+          const { key, size } = cursor.value as TileMetadata;
+          result.push({ key, size });
+        });
+        return (): { key: string; size: number }[] => result;
+      })) || [];
+
+    let totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+    const keysToRemove: string[] = [];
+    if (totalSize > this._maxSize) {
+      const targetSize = this._maxSize * LOW_WATER_MARK;
+      for (const entry of entries) {
+        if (totalSize <= targetSize) {
+          break;
+        }
+        keysToRemove.push(entry.key);
+        totalSize -= entry.size;
+      }
+    }
+
+    this._totalSize = totalSize;
+    if (keysToRemove.length > 0) {
+      this.logger.log(`Evicting ${keysToRemove.length} tiles over the cache quota`);
+      await this._transaction('readwrite', (tiles, metadata) => {
+        keysToRemove.forEach((key) => {
+          tiles.delete(key);
+          metadata.delete(key);
+        });
+        return (): void => undefined;
+      });
+    }
+  }
+
+  private _open(): Promise<IDBDatabase | undefined> {
+    if (!this._db) {
+      this._db = new Promise((resolve) => {
+        if (!PersistentTileCache.isSupported()) {
+          resolve(undefined);
+          return;
+        }
+
+        try {
+          const request = indexedDB.open(this._dbName, DB_VERSION);
+          request.onupgradeneeded = (): void => {
+            const db = request.result;
+            // Earlier versions kept bytes and metadata in one store, start over
+            Array.from(db.objectStoreNames).forEach((name) => db.deleteObjectStore(name));
+            db.createObjectStore(TILE_STORE, { keyPath: 'key' });
+            const metadata = db.createObjectStore(METADATA_STORE, { keyPath: 'key' });
+            metadata.createIndex('namespace', 'namespace');
+            metadata.createIndex('accessedAt', 'accessedAt');
+          };
+          request.onsuccess = (): void => resolve(request.result);
+          request.onerror = (): void => {
+            this.logger.warn('Failed to open persistent tile cache:', request.error);
+            resolve(undefined);
+          };
+        } catch (error) {
+          this.logger.warn('Failed to open persistent tile cache:', error);
+          resolve(undefined);
+        }
+      });
+    }
+    return this._db;
+  }
+
+  /**
+   * Run requests in one transaction over both stores
+   *
+   * `run` issues the requests and returns a getter for the result, read once
+   * the transaction commits. Failures resolve undefined.
+   */
+  private async _transaction<T>(
+    mode: IDBTransactionMode,
+    run: (tiles: IDBObjectStore, metadata: IDBObjectStore) => () => T,
+  ): Promise<T | undefined> {
+    const db = await this._open();
+    if (!db) {
+      return undefined;
+    }
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = db.transaction([TILE_STORE, METADATA_STORE], mode);
+        const getResult = run(transaction.objectStore(TILE_STORE), transaction.objectStore(METADATA_STORE));
+        transaction.oncomplete = (): void => resolve(getResult());
+        transaction.onerror = (): void => {
+          this.logger.warn('Persistent tile cache request failed:', transaction.error);
+          resolve(undefined);
+        };
+        transaction.onabort = transaction.onerror;
+      } catch (error) {
+        this.logger.warn('Persistent tile cache request failed:', error);
+        resolve(undefined);
+      }
+    });
+  }
+
+  /**
+   * Visit every record of a cursor request
+   */
+  private static _forEachCursor<C extends IDBCursor>(request: IDBRequest<C | null>, visit: (cursor: C) => void): void {
+    request.onsuccess = (): void => {
+      const cursor = request.result;
+      if (cursor) {
+        visit(cursor);
+        cursor.continue();
+      }
+    };
+  }
+}
+
+/**
+ * Wrap a tile loader so tiles are served from the persistent cache while fresh
+ * and revalidated with conditional requests once expired, or whenever
+ * `shouldRevalidate` returns true for the tile
+ */
+export function withPersistentCache(
+  loader: TileLoader,
+  cache: PersistentTileCache,
+  getNamespace: () => string,
+  shouldRevalidate?: (coord: TileCoord) => boolean,
+): TileLoader {
+  return async (coord: TileCoord, signal: AbortSignal, headers: Record<string, string>): Promise<TileResponse> => {
+    const namespace = getNamespace();
+    const revalidate = shouldRevalidate?.(coord) || false;
+    const cached = await cache.get(namespace, coord);
+    if (cached && !revalidate && !cache.isExpired(cached)) {
+      return { data: cached.data, etag: cached.etag, lastModified: cached.lastModified };
+    }
+
+    const requestHeaders = { ...headers };
+    if (cached?.etag) {
+      requestHeaders['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      requestHeaders['If-Modified-Since'] = cached.lastModified;
+    }
+
+    let response = toTileResponse(await loader(coord, signal, requestHeaders));
+    if (response.notModified && cached) {
+      // Still valid, restart the TTL. Caching is best effort, failures only cost a later download
+      cache.put(namespace, coord, cached.data, cached).catch(() => {});
+      return { data: cached.data, etag: cached.etag, lastModified: cached.lastModified };
+    }
+
+    if (response.notModified) {
+      // Validators from the request headers, but no cached copy to serve: request the full tile
+      response = toTileResponse(await loader(coord, signal, withoutValidators(requestHeaders)));
+      if (response.notModified) {
+        throw new TileLoadError(`Tile ${coord.z}/${coord.x}/${coord.y} was not modified but is not cached`, 304);
+      }
+    }
+
+    cache.put(namespace, coord, response.data, response).catch(() => {});
+    return response;
+  };
+}
+
+/**
+ * Copy of the headers without conditional request validators
+ */
+function withoutValidators(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.keys(headers).forEach((name) => {
+    const lowerName = name.toLowerCase();
+    if (lowerName !== 'if-none-match' && lowerName !== 'if-modified-since') {
+      result[name] = headers[name];
+    }
+  });
+  return result;
+}
@@ -0,0 +1,466 @@
+import { VectorTileFeature } from '@mapbox/vector-tile';
+import { ColorUtils } from './ColorUtils';
+import {
+  ExpressionStyle,
+  FeatureState,
+  FeatureStyle,
+  FeatureStyleFunction,
+  FilterFunction,
+  StyleExpression,
+  TileContext,
+} from './types';
+
+/**
+ * Error raised when a style expression is malformed, with the path of the offending value
+ */
+export class StyleExpressionError extends Error {
+  public path: string;
+
+  constructor(message: string, path: string) {
+    super(`${path}: ${message}`);
+    this.name = 'StyleExpressionError';
+    this.path = path;
+  }
+}
+
+interface EvaluationContext {
+  properties: Record<string, unknown>;
+  geometryType: number;
+  zoom: number;
+  featureState: FeatureState;
+}
+
+type Evaluator = (context: EvaluationContext) => unknown;
+
+const GEOMETRY_TYPES = ['Unknown', 'Point', 'LineString', 'Polygon'];
+
+// Style values taken as they are when given as objects: sprite sheets, images and fill patterns
+const OBJECT_VALUES = new Set(['sprite', 'image', 'fillPattern']);
+
+const COMPARISONS: Record<string, (a: number | string, b: number | string) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+};
+
+const isMatchLabel = (value: unknown): value is string | number =>
+  typeof value === 'string' || typeof value === 'number';
+
+/**
+ * Check the number of arguments of an operator
+ */
+function checkArity(args: StyleExpression[], path: string, min: number, max = min): void {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    throw new StyleExpressionError(`Expected ${expected} arguments, got ${args.length}`, path);
+  }
+}
+
+/**
+ * Parse the literal, ascending stop inputs of step and interpolate expressions
+ */
+function parseStops(args: StyleExpression[], start: number, path: string): number[] {
+  const stops: number[] = [];
+  for (let i = start; i < args.length; i += 2) {
+    const stop = args[i];
+    if (typeof stop !== 'number') {
+      throw new StyleExpressionError('Stop inputs must be literal numbers', `${path}[${i + 1}]`);
+    }
+    if (stops.length > 0 && stop <= stops[stops.length - 1]) {
+      throw new StyleExpressionError('Stop inputs must be in strictly ascending order', `${path}[${i + 1}]`);
+    }
+    stops.push(stop);
+  }
+  return stops;
+}
+
+/**
+ * Index of the last stop at or below the input, -1 when below all stops
+ */
+function findStop(stops: number[], input: number): number {
+  let low = 0;
+  let high = stops.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (stops[mid] <= input) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return high;
+}
+
+/**
+ * Blend two numbers or two colors
+ */
+function blend(from: unknown, to: unknown, t: number): unknown {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return from + (to - from) * t;
+  }
+
+  if (typeof from === 'string' && typeof to === 'string') {
+    const fromColor = ColorUtils.parseRgb(from);
+    const toColor = ColorUtils.parseRgb(to);
+    if (fromColor && toColor) {
+      const channel = (a: number, b: number): number => Math.round(a + (b - a) * t);
+      const r = channel(fromColor.r, toColor.r);
+      const g = channel(fromColor.g, toColor.g);
+      const b = channel(fromColor.b, toColor.b);
+      const alpha = (fromColor.a ?? 1) + ((toColor.a ?? 1) - (fromColor.a ?? 1)) * t;
+      return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+    }
+  }
+
+  return t < 1 ? from : to;
+}
+
+/**
+ * Compile an expression into an evaluator, validating its structure
+ */
+function compileExpression(expression: StyleExpression, path: string): Evaluator {
+  if (!Array.isArray(expression)) {
+    if (expression !== null && typeof expression === 'object') {
+      throw new StyleExpressionError('Objects are not valid expressions', path);
+    }
+    return (): unknown => expression;
+  }
+
+  const [operator, ...args] = expression;
+  if (typeof operator !== 'string') {
+    throw new StyleExpressionError(
+      'Expected an operator name as first element, use ["literal", [...]] for arrays',
+      path,
+    );
+  }
+
+  const compileArg = (index: number): Evaluator => compileExpression(args[index], `${path}[${index + 1}]`);
+
+  switch (operator) {
+    case 'literal': {
+      checkArity(args, path, 1);
+      const value = args[0];
+      return (): unknown => value;
+    }
+
+    case 'get':
+    case 'has':
+    case 'feature-state': {
+      checkArity(args, path, 1);
+      const name = args[0];
+      if (typeof name !== 'string') {
+        throw new StyleExpressionError('Expected a property name', `${path}[1]`);
+      }
+      if (operator === 'has') {
+        return (context): boolean => context.properties[name] !== undefined;
+      }
+      if (operator === 'get') {
+        return (context): unknown => context.properties[name] ?? null;
+      }
+      return (context): unknown => context.featureState[name] ?? null;
+    }
+
+    case 'zoom':
+      checkArity(args, path, 0);
+      return (context): number => context.zoom;
+
+    case 'geometry-type':
+      checkArity(args, path, 0);
+      return (context): string => GEOMETRY_TYPES[context.geometryType] || 'Unknown';
+
+    case 'coalesce': {
+      checkArity(args, path, 1, Infinity);
+      const values = args.map((_arg, index) => compileArg(index));
+      return (context): unknown => {
+        for (const value of values) {
+          const result = value(context);
+          if (result !== null && result !== undefined) {
+            return result;
+          }
+        }
+        return null;
+      };
+    }
+
+    case '==':
+    case '!=': {
+      checkArity(args, path, 2);
+      const [left, right] = [compileArg(0), compileArg(1)];
+      const equal = operator === '==';
+      return (context): boolean => (left(context) === right(context)) === equal;
+    }
+
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      checkArity(args, path, 2);
+      const [left, right] = [compileArg(0), compileArg(1)];
+      const compare = COMPARISONS[operator];
+      return (context): boolean => {
+        const a = left(context);
+        const b = right(context);
+        // Mixed or missing types never compare as true
+        return (
+          ((typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string')) &&
+          compare(a, b)
+        );
+      };
+    }
+
+    case '!': {
+      checkArity(args, path, 1);
+      const value = compileArg(0);
+      return (context): boolean => !value(context);
+    }
+
+    case 'all':
+    case 'any': {
+      const values = args.map((_arg, index) => compileArg(index));
+      return operator === 'all'
+        ? (context): boolean => values.every((value) => value(context))
+        : (context): boolean => values.some((value) => value(context));
+    }
+
+    case 'case': {
+      if (args.length < 3 || args.length % 2 === 0) {
+        throw new StyleExpressionError('Expected condition/output pairs followed by a fallback', path);
+      }
+      const branches: [Evaluator, Evaluator][] = [];
+      for (let i = 0; i < args.length - 1; i += 2) {
+        branches.push([compileArg(i), compileArg(i + 1)]);
+      }
+      const fallback = compileArg(args.length - 1);
+      return (context): unknown => {
+        for (const [condition, output] of branches) {
+          if (condition(context)) {
+            return output(context);
+          }
+        }
+        return fallback(context);
+      };
+    }
+
+    case 'match': {
+      if (args.length < 4 || args.length % 2 !== 0) {
+        throw new StyleExpressionError('Expected an input, label/output pairs and a fallback', path);
+      }
+      const input = compileArg(0);
+      const outputs = new Map<string | number, Evaluator>();
+      for (let i = 1; i < args.length - 1; i += 2) {
+        const labels = Array.isArray(args[i]) ? (args[i] as StyleExpression[]) : [args[i]];
+        const output = compileArg(i + 1);
+        labels.forEach((label) => {
+          if (!isMatchLabel(label)) {
+            throw new StyleExpressionError('Match labels must be literal strings or numbers', `${path}[${i + 1}]`);
+          }
+          if (outputs.has(label)) {
+            throw new StyleExpressionError(`Duplicate match label "${label}"`, `${path}[${i + 1}]`);
+          }
+          outputs.set(label, output);
+        });
+      }
+      const fallback = compileArg(args.length - 1);
+      return (context): unknown => {
+        const value = input(context);
+        const output = isMatchLabel(value) ? outputs.get(value) : undefined;
+        return (output || fallback)(context);
+      };
+    }
+
+    case 'step': {
+      if (args.length < 2 || args.length % 2 !== 0) {
+        throw new StyleExpressionError('Expected an input, a default output and stop/output pairs', path);
+      }
+      const input = compileArg(0);
+      const stops = parseStops(args, 2, path);
+      const outputs = [compileArg(1)];
+      for (let i = 3; i < args.length; i += 2) {
+        outputs.push(compileArg(i));
+      }
+      return (context): unknown => {
+        const value = input(context);
+        const index = typeof value === 'number' ? findStop(stops, value) : -1;
+        return outputs[index + 1](context);
+      };
+    }
+
+    case 'interpolate': {
+      if (args.length < 4 || args.length % 2 !== 0) {
+        throw new StyleExpressionError('Expected an interpolation type, an input and stop/output pairs', path);
+      }
+      const base = parseInterpolation(args[0], `${path}[1]`);
+      const input = compileArg(1);
+      const stops = parseStops(args, 2, path);
+      const outputs: Evaluator[] = [];
+      for (let i = 3; i < args.length; i += 2) {
+        outputs.push(compileArg(i));
+      }
+      return (context): unknown => {
+        const value = input(context);
+        if (typeof value !== 'number') {
+          return null;
+        }
+        const index = findStop(stops, value);
+        if (index < 0) {
+          return outputs[0](context);
+        }
+        if (index >= stops.length - 1) {
+          return outputs[stops.length - 1](context);
+        }
+
+        const range = stops[index + 1] - stops[index];
+        const progress = value - stops[index];
+        const t = base === 1 ? progress / range : (Math.pow(base, progress) - 1) / (Math.pow(base, range) - 1);
+        return blend(outputs[index](context), outputs[index + 1](context), t);
+      };
+    }
+
+    default:
+      throw new StyleExpressionError(`Unknown operator "${operator}"`, path);
+  }
+}
+
+/**
+ * Exponential base of an interpolation type, 1 for linear
+ */
+function parseInterpolation(interpolation: StyleExpression, path: string): number {
+  if (Array.isArray(interpolation)) {
+    if (interpolation[0] === 'linear' && interpolation.length === 1) {
+      return 1;
+    }
+    if (interpolation[0] === 'exponential' && interpolation.length === 2 && typeof interpolation[1] === 'number') {
+      return interpolation[1];
+    }
+  }
+  throw new StyleExpressionError('Expected ["linear"] or ["exponential", base]', path);
+}
+
+/**
+ * Compile every value of a style, nested selected, hover, label and icon styles included
+ */
+function compileStyleValues(style: ExpressionStyle, path: string): (context: EvaluationContext) => FeatureStyle {
+  if (!style || typeof style !== 'object' || Array.isArray(style)) {
+    throw new StyleExpressionError('Expected a style object', path);
+  }
+
+  const constants: Record<string, unknown> = {};
+  const expressions: [string, Evaluator][] = [];
+  const states: [string, (context: EvaluationContext) => FeatureStyle][] = [];
+
+  Object.keys(style).forEach((key) => {
+    const value = style[key as keyof ExpressionStyle];
+    const keyPath = path ? `${path}.${key}` : key;
+    if (key === 'selected' || key === 'hover' || key === 'label' || key === 'icon') {
+      states.push([key, compileStyleValues(value as ExpressionStyle, keyPath)]);
+    } else if (Array.isArray(value)) {
+      expressions.push([key, compileExpression(value, keyPath)]);
+    } else if (OBJECT_VALUES.has(key) && value !== null && typeof value === 'object') {
+      constants[key] = value;
+    } else {
+      compileExpression(value as StyleExpression, keyPath);
+      constants[key] = value;
+    }
+  });
+
+  return (context): FeatureStyle => {
+    const result: Record<string, unknown> = { ...constants };
+    expressions.forEach(([key, evaluate]) => {
+      const value = evaluate(context);
+      if (value !== null && value !== undefined) {
+        result[key] = value;
+      }
+    });
+    states.forEach(([key, evaluate]) => {
+      result[key] = evaluate(context);
+    });
+    return result as FeatureStyle;
+  };
+}
+
+/**
+ * Collect the errors of a compile step instead of throwing the first one
+ */
+function collectErrors(compile: () => void): string[] {
+  try {
+    compile();
+    return [];
+  } catch (error) {
+    if (error instanceof StyleExpressionError) {
+      return [error.message];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Compile JSON style expressions, a subset of the Mapbox GL style specification
+ *
+ * Supported operators: `get`, `has`, `feature-state`, `zoom`, `geometry-type`,
+ * `literal`, `coalesce`, `match`, `case`, `step`, `interpolate`, `==`, `!=`,
+ * `<`, `<=`, `>`, `>=`, `!`, `all` and `any`. Expressions are validated and
+ * compiled once into closures, so evaluating them does no parsing.
+ */
+export class StyleExpressions {
+  /**
+   * Compile a single expression into a function of a feature and zoom level
+   */
+  static compile(
+    expression: StyleExpression,
+    path = 'expression',
+  ): (feature: VectorTileFeature, zoom: number, featureState?: FeatureState) => unknown {
+    const evaluate = compileExpression(expression, path);
+    return (feature, zoom, featureState = {}): unknown =>
+      evaluate({ properties: feature.properties, geometryType: feature.type, zoom, featureState });
+  }
+
+  /**
+   * Compile a style whose values may be expressions into a style function
+   */
+  static compileStyle(style: ExpressionStyle): FeatureStyleFunction {
+    const evaluate = compileStyleValues(style, '');
+    return (feature, context): FeatureStyle =>
+      evaluate({
+        properties: feature.properties,
+        geometryType: feature.type,
+        zoom: context.zoom,
+        featureState: context.featureState,
+      });
+  }
+
+  /**
+   * Compile a boolean expression into a filter function
+   *
+   * `feature-state` is not available to filters and evaluates to null.
+   */
+  static compileFilter(expression: StyleExpression): FilterFunction {
+    const evaluate = compileExpression(expression, 'filter');
+    return (feature: VectorTileFeature, tileContext: TileContext): boolean =>
+      !!evaluate({
+        properties: feature.properties,
+        geometryType: feature.type,
+        zoom: tileContext.zoom,
+        featureState: {},
+      });
+  }
+
+  /**
+   * Validate a style before use, returning error messages (empty when valid)
+   */
+  static validateStyle(style: ExpressionStyle): string[] {
+    if (!style || typeof style !== 'object' || Array.isArray(style)) {
+      return ['Expected a style object'];
+    }
+    return Object.keys(style).flatMap((key) =>
+      collectErrors(() => compileStyleValues({ [key]: style[key as keyof ExpressionStyle] } as ExpressionStyle, '')),
+    );
+  }
+
+  /**
+   * Validate a filter expression before use, returning error messages (empty when valid)
+   */
+  static validateFilter(expression: StyleExpression): string[] {
+    return collectErrors(() => compileExpression(expression, 'filter'));
+  }
+}
@@ -0,0 +1,223 @@
+import { BoundingBoxManifest, TileAvailabilityManifest, TileManifest, ZoomExtentManifest } from './types';
+
+type LngLatBounds = [number, number, number, number];
+
+interface TileRect {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/**
+ * Range manifest columns of one zoom level
+ */
+interface ColumnIndex {
+  xRanges: Float64Array; // Sorted, disjoint [xStart, xEnd] pairs
+  yRanges: Float64Array[]; // Merged [yStart, yEnd] pairs of each x range
+}
+
+interface ColumnRange {
+  start: number;
+  end: number;
+  ranges: [number, number][];
+}
+
+/**
+ * Check if a manifest uses the bounding box form
+ */
+export function isBoundingBoxManifest(manifest: TileAvailabilityManifest): manifest is BoundingBoxManifest {
+  return (manifest as BoundingBoxManifest).type === 'bbox';
+}
+
+/**
+ * Check if a manifest uses the per-zoom extent form
+ */
+export function isZoomExtentManifest(manifest: TileAvailabilityManifest): manifest is ZoomExtentManifest {
+  return (manifest as ZoomExtentManifest).type === 'extent';
+}
+
+/**
+ * Parse a range manifest column key, either "x" or "x0-x1"
+ */
+export function parseColumnKey(key: string): [number, number] | undefined {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(key);
+  if (!match) {
+    return undefined;
+  }
+  const start = parseInt(match[1]);
+  const end = match[2] !== undefined ? parseInt(match[2]) : start;
+  return end >= start ? [start, end] : undefined;
+}
+
+/**
+ * Sort ranges and merge overlapping or adjacent ones
+ */
+export function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = ranges.map(([start, end]) => [start, end] as [number, number]).sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  sorted.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Precomputed lookup structure for tile availability manifests
+ *
+ * Range manifests keep their column ranges, split into sorted, disjoint x ranges
+ * with merged [yStart, yEnd] pairs, and are searched with a binary search on
+ * each axis. Bounding boxes are converted to tile rectangles once per zoom level.
+ */
+export class TileAvailabilityIndex {
+  private _columns: Map<number, ColumnIndex> = new Map();
+  private _rects: Map<number, TileRect[]> = new Map();
+  private _bounds: LngLatBounds[] = [];
+  private _minZoom = 0;
+  private _maxZoom = Infinity;
+
+  constructor(manifest: TileAvailabilityManifest) {
+    if (isBoundingBoxManifest(manifest)) {
+      const { bounds } = manifest;
+      this._bounds = Array.isArray(bounds[0]) ? (bounds as LngLatBounds[]) : [bounds as LngLatBounds];
+      this._minZoom = manifest.minZoom ?? 0;
+      this._maxZoom = manifest.maxZoom ?? Infinity;
+    } else if (isZoomExtentManifest(manifest)) {
+      Object.keys(manifest.zooms).forEach((zoomLevel) => {
+        this._rects.set(parseInt(zoomLevel), [manifest.zooms[zoomLevel]]);
+      });
+    } else {
+      this._indexRanges(manifest);
+    }
+  }
+
+  /**
+   * Check if a tile is listed as available
+   */
+  isAvailable(z: number, x: number, y: number): boolean {
+    const columns = this._columns.get(z);
+    if (columns) {
+      const column = TileAvailabilityIndex._findRange(columns.xRanges, x);
+      return column >= 0 && TileAvailabilityIndex._findRange(columns.yRanges[column], y) >= 0;
+    }
+
+    return this._getRects(z).some((rect) => x >= rect.minX && x <= rect.maxX && y >= rect.minY && y <= rect.maxY);
+  }
+
+  /**
+   * Check if the manifest lists any tiles at a zoom level
+   */
+  hasZoom(z: number): boolean {
+    return this._columns.has(z) || this._getRects(z).length > 0;
+  }
+
+  private _indexRanges(manifest: TileManifest): void {
+    Object.keys(manifest).forEach((zoomLevel) => {
+      const columnRanges: ColumnRange[] = [];
+      const boundaries = new Set<number>();
+      Object.keys(manifest[zoomLevel]).forEach((key) => {
+        const columnRange = parseColumnKey(key);
+        if (!columnRange) {
+          return;
+        }
+        const [start, end] = columnRange;
+        columnRanges.push({ start, end, ranges: manifest[zoomLevel][key] });
+        boundaries.add(start);
+        boundaries.add(end + 1);
+      });
+
+      // Overlapping column ranges are split at every boundary, so each x falls in one range
+      columnRanges.sort((a, b) => a.start - b.start);
+      const points = Array.from(boundaries).sort((a, b) => a - b);
+      const xRanges: number[] = [];
+      const yRanges: Float64Array[] = [];
+      let active: ColumnRange[] = [];
+      let next = 0;
+      for (let i = 0; i < points.length - 1; i++) {
+        const start = points[i];
+        while (next < columnRanges.length && columnRanges[next].start <= start) {
+          active.push(columnRanges[next++]);
+        }
+        active = active.filter((columnRange) => columnRange.end >= start);
+        if (active.length > 0) {
+          xRanges.push(start, points[i + 1] - 1);
+          yRanges.push(new Float64Array(mergeRanges(active.flatMap((columnRange) => columnRange.ranges)).flat()));
+        }
+      }
+
+      this._columns.set(parseInt(zoomLevel), { xRanges: new Float64Array(xRanges), yRanges });
+    });
+  }
+
+  /**
+   * Tile rectangles of a zoom level, computed lazily for bounding box manifests
+   */
+  private _getRects(z: number): TileRect[] {
+    const rects = this._rects.get(z);
+    if (rects) {
+      return rects;
+    }
+    if (this._bounds.length === 0 || z < this._minZoom || z > this._maxZoom) {
+      return [];
+    }
+
+    const zoomRects: TileRect[] = [];
+    this._bounds.forEach(([west, south, east, north]) => {
+      // Bounds crossing the antimeridian have west > east
+      const spans =
+        west <= east
+          ? [[west, east]]
+          : [
+              [west, 180],
+              [-180, east],
+            ];
+      spans.forEach(([spanWest, spanEast]) => {
+        zoomRects.push({
+          minX: TileAvailabilityIndex._lngToTileX(spanWest, z),
+          maxX: TileAvailabilityIndex._lngToTileX(spanEast, z),
+          minY: TileAvailabilityIndex._latToTileY(north, z),
+          maxY: TileAvailabilityIndex._latToTileY(south, z),
+        });
+      });
+    });
+    this._rects.set(z, zoomRects);
+    return zoomRects;
+  }
+
+  /**
+   * Binary search over sorted, non-overlapping [start, end] pairs, returning
+   * the index of the pair containing the value or -1
+   */
+  private static _findRange(ranges: Float64Array, value: number): number {
+    let low = 0;
+    let high = ranges.length / 2 - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (value < ranges[mid * 2]) {
+        high = mid - 1;
+      } else if (value > ranges[mid * 2 + 1]) {
+        low = mid + 1;
+      } else {
+        return mid;
+      }
+    }
+    return -1;
+  }
+
+  private static _lngToTileX(lng: number, z: number): number {
+    const tiles = 1 << z;
+    return Math.min(tiles - 1, Math.max(0, Math.floor(((lng + 180) / 360) * tiles)));
+  }
+
+  private static _latToTileY(lat: number, z: number): number {
+    const tiles = 1 << z;
+    const siny = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+    const y = 0.5 - Math.log((1 + siny) / (1 - siny)) / (4 * Math.PI);
+    return Math.min(tiles - 1, Math.max(0, Math.floor(y * tiles)));
+  }
+}
@@ -0,0 +1,274 @@
+import { VectorTile, VectorTileFeature } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import { Compression } from './Compression';
+import { TileDecodeError } from './TileLoader';
+import { Point } from './types';
+
+/**
+ * Vector tile layer packed into flat typed arrays so it can be transferred between threads
+ *
+ * Coordinates are pre-projected to tile pixels, features own the rings
+ * featureOffsets[i]..featureOffsets[i + 1] and rings own the points
+ * ringOffsets[j]..ringOffsets[j + 1].
+ */
+export interface PackedVectorTileLayer {
+  name: string;
+  extent: number;
+  types: Uint8Array;
+  ids: Float64Array; // NaN for features without an ID
+  properties: Record<string, number | string | boolean>[];
+  featureOffsets: Uint32Array;
+  ringOffsets: Uint32Array;
+  coordinates: Float32Array;
+}
+
+/**
+ * Decode raw tile bytes, decompressing gzipped payloads served without Content-Encoding
+ */
+export async function decodeVectorTile(data: ArrayBuffer): Promise<VectorTile> {
+  let bytes = new Uint8Array(data);
+
+  if (Compression.isGzip(bytes)) {
+    try {
+      bytes = new Uint8Array(await Compression.decompress(bytes));
+    } catch (error) {
+      throw new TileDecodeError(`Failed to decompress gzipped tile: ${(error as Error).message}`);
+    }
+  }
+
+  try {
+    const pbf = new Protobuf(bytes);
+    return new VectorTile(pbf);
+  } catch (error) {
+    throw new TileDecodeError(`Tile is neither valid PBF nor gzip: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Pack the layers of a decoded tile, projecting geometry to a tileSize pixel grid
+ */
+export function packVectorTile(vectorTile: VectorTile, tileSize: number): PackedVectorTileLayer[] {
+  return Object.keys(vectorTile.layers).map((name) => {
+    const layer = vectorTile.layers[name];
+    const types = new Uint8Array(layer.length);
+    const ids = new Float64Array(layer.length);
+    const properties: Record<string, number | string | boolean>[] = [];
+    const featureOffsets = new Uint32Array(layer.length + 1);
+    const ringOffsets: number[] = [0];
+    const coordinates: number[] = [];
+
+    for (let i = 0; i < layer.length; i++) {
+      const feature = layer.feature(i);
+      const scale = tileSize / feature.extent;
+      types[i] = feature.type;
+      ids[i] = typeof feature.id === 'number' ? feature.id : NaN;
+      properties.push(feature.properties);
+
+      feature.loadGeometry().forEach((ring) => {
+        ring.forEach((point) => {
+          coordinates.push(point.x * scale, point.y * scale);
+        });
+        ringOffsets.push(coordinates.length / 2);
+      });
+      featureOffsets[i + 1] = ringOffsets.length - 1;
+    }
+
+    return {
+      name,
+      extent: tileSize,
+      types,
+      ids,
+      properties,
+      featureOffsets,
+      ringOffsets: new Uint32Array(ringOffsets),
+      coordinates: new Float32Array(coordinates),
+    };
+  });
+}
+
+/**
+ * Buffers of packed layers that can be transferred instead of copied
+ */
+export function getTransferables(layers: PackedVectorTileLayer[]): ArrayBuffer[] {
+  const buffers: ArrayBuffer[] = [];
+  layers.forEach((layer) => {
+    [layer.types, layer.ids, layer.featureOffsets, layer.ringOffsets, layer.coordinates].forEach((array) => {
+      buffers.push(array.buffer as ArrayBuffer);
+    });
+  });
+  return buffers;
+}
+
+/**
+ * Group polygon rings into polygons, outer rings followed by their holes
+ */
+function classifyRings(rings: Point[][]): Point[][][] {
+  const polygons: Point[][][] = [];
+  let polygon: Point[][] | undefined;
+  let outerClockwise: boolean | undefined;
+
+  rings.forEach((ring) => {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      area += (ring[j].x - ring[i].x) * (ring[i].y + ring[j].y);
+    }
+    if (area === 0) {
+      return;
+    }
+
+    const clockwise = area < 0;
+    if (outerClockwise === undefined) {
+      outerClockwise = clockwise;
+    }
+    if (outerClockwise === clockwise || !polygon) {
+      polygon = [ring];
+      polygons.push(polygon);
+    } else {
+      polygon.push(ring);
+    }
+  });
+  return polygons;
+}
+
+/**
+ * Feature of a packed layer, exposing the VectorTileFeature interface used for drawing and hit-testing
+ */
+export class DecodedVectorTileFeature {
+  public type: 0 | 1 | 2 | 3;
+  public id: number | undefined;
+  public properties: Record<string, number | string | boolean>;
+  public extent: number;
+
+  private _layer: PackedVectorTileLayer;
+  private _index: number;
+  private _geometry: Point[][] | null = null;
+
+  constructor(layer: PackedVectorTileLayer, index: number) {
+    this._layer = layer;
+    this._index = index;
+    this.type = layer.types[index] as 0 | 1 | 2 | 3;
+    this.id = Number.isNaN(layer.ids[index]) ? undefined : layer.ids[index];
+    this.properties = layer.properties[index];
+    this.extent = layer.extent;
+  }
+
+  /**
+   * Rings of tile pixel coordinates, built once and cached
+   */
+  loadGeometry(): Point[][] {
+    if (!this._geometry) {
+      const { featureOffsets, ringOffsets, coordinates } = this._layer;
+      const rings: Point[][] = [];
+      for (let r = featureOffsets[this._index]; r < featureOffsets[this._index + 1]; r++) {
+        const ring: Point[] = [];
+        for (let p = ringOffsets[r]; p < ringOffsets[r + 1]; p++) {
+          ring.push({ x: coordinates[p * 2], y: coordinates[p * 2 + 1] });
+        }
+        rings.push(ring);
+      }
+      this._geometry = rings;
+    }
+    return this._geometry;
+  }
+
+  bbox(): number[] {
+    let x1 = Infinity;
+    let x2 = -Infinity;
+    let y1 = Infinity;
+    let y2 = -Infinity;
+    this.loadGeometry().forEach((ring) => {
+      ring.forEach((point) => {
+        x1 = Math.min(x1, point.x);
+        x2 = Math.max(x2, point.x);
+        y1 = Math.min(y1, point.y);
+        y2 = Math.max(y2, point.y);
+      });
+    });
+    return [x1, y1, x2, y2];
+  }
+
+  /**
+   * Convert to a GeoJSON feature in WGS84 coordinates
+   */
+  toGeoJSON(x: number, y: number, z: number): GeoJSON.Feature {
+    const size = this.extent * 2 ** z;
+    const x0 = this.extent * x;
+    const y0 = this.extent * y;
+    const project = (point: Point): number[] => [
+      ((point.x + x0) * 360) / size - 180,
+      (360 / Math.PI) * Math.atan(Math.exp(((180 - ((point.y + y0) * 360) / size) * Math.PI) / 180)) - 90,
+    ];
+
+    const rings = this.loadGeometry();
+    let geometry: GeoJSON.Geometry;
+    switch (this.type) {
+      case 1: {
+        const points = rings.map((ring) => project(ring[0]));
+        geometry =
+          points.length === 1 ? { type: 'Point', coordinates: points[0] } : { type: 'MultiPoint', coordinates: points };
+        break;
+      }
+      case 2: {
+        const lines = rings.map((ring) => ring.map(project));
+        geometry =
+          lines.length === 1
+            ? { type: 'LineString', coordinates: lines[0] }
+            : { type: 'MultiLineString', coordinates: lines };
+        break;
+      }
+      default: {
+        const polygons = classifyRings(rings).map((polygon) => polygon.map((ring) => ring.map(project)));
+        geometry =
+          polygons.length === 1
+            ? { type: 'Polygon', coordinates: polygons[0] }
+            : { type: 'MultiPolygon', coordinates: polygons };
+      }
+    }
+
+    const feature: GeoJSON.Feature = { type: 'Feature', geometry, properties: this.properties };
+    if (this.id !== undefined) {
+      feature.id = this.id;
+    }
+    return feature;
+  }
+}
+
+/**
+ * Layer of a packed tile, exposing the VectorTileLayer interface
+ */
+export class DecodedVectorTileLayer {
+  public name: string;
+  public extent: number;
+  public length: number;
+  public version = 2;
+
+  private _layer: PackedVectorTileLayer;
+
+  constructor(layer: PackedVectorTileLayer) {
+    this._layer = layer;
+    this.name = layer.name;
+    this.extent = layer.extent;
+    this.length = layer.types.length;
+  }
+
+  feature(i: number): VectorTileFeature {
+    if (i < 0 || i >= this.length) {
+      throw new Error('feature index out of bounds');
+    }
+    // Structurally compatible with the parts of VectorTileFeature used for rendering
+    return new DecodedVectorTileFeature(this._layer, i) as unknown as VectorTileFeature;
+  }
+}
+
+/**
+ * Tile rebuilt from packed layers, used in place of a VectorTile
+ */
+export class DecodedVectorTile {
+  public layers: Record<string, DecodedVectorTileLayer> = {};
+
+  constructor(layers: PackedVectorTileLayer[]) {
+    layers.forEach((layer) => {
+      this.layers[layer.name] = new DecodedVectorTileLayer(layer);
+    });
+  }
+}
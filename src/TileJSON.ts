@@ -0,0 +1,83 @@
+import { MVTSourceOptions, TileCoord, TileJSON } from './types';
+import { buildTileUrl } from './TileLoader';
+
+/**
+ * Fetch a TileJSON document, or pass through an already loaded one
+ */
+export async function loadTileJSON(source: TileJSON | string, headers?: Record<string, string>): Promise<TileJSON> {
+  if (typeof source !== 'string') {
+    return source;
+  }
+
+  const response = await fetch(source, {
+    method: 'GET',
+    headers: { Accept: 'application/json', ...headers },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch TileJSON: ${response.status} ${response.statusText}`);
+  }
+
+  const tileJSON: TileJSON = await response.json();
+  if (!Array.isArray(tileJSON.tiles) || tileJSON.tiles.length === 0) {
+    throw new Error(`TileJSON has no tile URLs: ${source}`);
+  }
+
+  // Tile URLs may be relative to the document
+  return {
+    ...tileJSON,
+    tiles: tileJSON.tiles.map((tileUrl) => resolveRelativeUrl(tileUrl, source)),
+  };
+}
+
+/**
+ * Convert TileJSON metadata to MVTSource options
+ */
+export function tileJSONToOptions(tileJSON: TileJSON): Partial<MVTSourceOptions> {
+  if (!Array.isArray(tileJSON.tiles) || tileJSON.tiles.length === 0) {
+    throw new Error('TileJSON has no tile URLs');
+  }
+
+  // Tile URL templates use the XYZ row order, flip it for TMS sources
+  const templates =
+    tileJSON.scheme === 'tms' ? tileJSON.tiles.map((tileUrl) => tileUrl.replace(/\{y\}/g, '{-y}')) : tileJSON.tiles;
+
+  const options: Partial<MVTSourceOptions> = {
+    url:
+      templates.length === 1
+        ? templates[0]
+        : (coord: TileCoord): string => buildTileUrl(templates[Math.abs(coord.x + coord.y) % templates.length], coord),
+  };
+
+  if (tileJSON.minzoom !== undefined) {
+    options.minZoom = tileJSON.minzoom;
+  }
+  if (tileJSON.maxzoom !== undefined) {
+    options.sourceMaxZoom = tileJSON.maxzoom;
+  }
+  if (tileJSON.bounds) {
+    options.bounds = tileJSON.bounds;
+  }
+  if (tileJSON.vector_layers) {
+    options.vectorLayers = tileJSON.vector_layers;
+  }
+
+  return options;
+}
+
+/**
+ * Resolve a tile URL template against the TileJSON document URL
+ */
+function resolveRelativeUrl(url: string, base: string): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return url;
+  }
+
+  try {
+    const resolved = new URL(url, new URL(base, globalThis.location?.href)).href;
+    // Keep template tokens readable after URL encoding
+    return resolved.replace(/%7B/gi, '{').replace(/%7D/gi, '}');
+  } catch {
+    return url;
+  }
+}
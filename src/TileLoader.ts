@@ -0,0 +1,154 @@
+import { TileCoord, TileLoader, TileResponse, TileUrl } from './types';
+
+/**
+ * Error raised when a tile request completes without usable data
+ */
+export class TileLoadError extends Error {
+  public status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TileLoadError';
+    this.status = status;
+  }
+}
+
+/**
+ * Error raised when tile data cannot be decoded as a vector tile
+ */
+export class TileDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TileDecodeError';
+  }
+}
+
+const DEFAULT_SUBDOMAINS = ['a', 'b', 'c'];
+
+/**
+ * Build a tile URL from a template
+ *
+ * Supported tokens: {z}, {x}, {y}, {-y} (TMS row), {s} (subdomain),
+ * {quadkey} (Bing-style key) and {r} ("@2x" when the pixel ratio is above 1,
+ * the device pixel ratio by default).
+ */
+export function buildTileUrl(
+  template: string,
+  coord: TileCoord,
+  subdomains: string | string[] = DEFAULT_SUBDOMAINS,
+  pixelRatio: number = typeof window !== 'undefined' ? window.devicePixelRatio : 1,
+): string {
+  const { z, x, y } = coord;
+  return template
+    .replace(/\{z\}/g, z.toString())
+    .replace(/\{x\}/g, x.toString())
+    .replace(/\{y\}/g, y.toString())
+    .replace(/\{-y\}/g, ((1 << z) - 1 - y).toString())
+    .replace(/\{s\}/g, () => getSubdomain(subdomains, coord))
+    .replace(/\{quadkey\}/g, () => toQuadkey(coord))
+    .replace(/\{r\}/g, () => (pixelRatio > 1 ? '@2x' : ''));
+}
+
+/**
+ * Resolve a tile URL from a template or a URL function
+ */
+export function resolveTileUrl(
+  url: TileUrl,
+  coord: TileCoord,
+  subdomains?: string | string[],
+  pixelRatio?: number,
+): string {
+  return typeof url === 'function' ? url(coord) : buildTileUrl(url, coord, subdomains, pixelRatio);
+}
+
+/**
+ * Pick a subdomain so neighbouring tiles are spread across hosts
+ */
+function getSubdomain(subdomains: string | string[], coord: TileCoord): string {
+  const hosts = typeof subdomains === 'string' ? subdomains.split('') : subdomains;
+  if (hosts.length === 0) {
+    return '';
+  }
+  return hosts[Math.abs(coord.x + coord.y) % hosts.length];
+}
+
+/**
+ * Convert tile coordinates to a Bing Maps quadkey
+ */
+function toQuadkey(coord: TileCoord): string {
+  let quadkey = '';
+  for (let i = coord.z; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    let digit = 0;
+    if ((coord.x & mask) !== 0) {
+      digit += 1;
+    }
+    if ((coord.y & mask) !== 0) {
+      digit += 2;
+    }
+    quadkey += digit;
+  }
+  return quadkey;
+}
+
+/**
+ * Normalize a tile loader result to a TileResponse
+ */
+export function toTileResponse(result: ArrayBuffer | TileResponse): TileResponse {
+  return 'data' in result ? result : { data: result };
+}
+
+/**
+ * Create the default XMLHttpRequest based tile loader
+ */
+export function createXhrTileLoader(getUrl: (coord: TileCoord) => string): TileLoader {
+  return (
+    coord: TileCoord,
+    signal: AbortSignal,
+    headers: Record<string, string>,
+  ): Promise<ArrayBuffer | TileResponse> => {
+    return new Promise((resolve, reject) => {
+      const src = getUrl(coord);
+      const xmlHttpRequest = new XMLHttpRequest();
+
+      const onAbort = (): void => {
+        xmlHttpRequest.abort();
+        reject(new DOMException(`Tile request aborted: ${src}`, 'AbortError'));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+
+      xmlHttpRequest.onload = (): void => {
+        signal.removeEventListener('abort', onAbort);
+        if (xmlHttpRequest.status === 304) {
+          resolve({ data: new ArrayBuffer(0), notModified: true });
+        } else if (xmlHttpRequest.status === 200 && xmlHttpRequest.response) {
+          // Pass validators on so cached tiles can be revalidated
+          const etag = xmlHttpRequest.getResponseHeader('ETag') || undefined;
+          const lastModified = xmlHttpRequest.getResponseHeader('Last-Modified') || undefined;
+          resolve(
+            etag || lastModified ? { data: xmlHttpRequest.response, etag, lastModified } : xmlHttpRequest.response,
+          );
+        } else {
+          reject(new TileLoadError(`Unexpected tile response ${xmlHttpRequest.status}: ${src}`, xmlHttpRequest.status));
+        }
+      };
+
+      xmlHttpRequest.onerror = (): void => {
+        signal.removeEventListener('abort', onAbort);
+        reject(new TileLoadError(`Failed to load tile: ${src}`, 0));
+      };
+
+      xmlHttpRequest.open('GET', src, true);
+      Object.entries(headers).forEach(([header, value]) => {
+        xmlHttpRequest.setRequestHeader(header, value);
+      });
+      xmlHttpRequest.responseType = 'arraybuffer';
+      xmlHttpRequest.send();
+    });
+  };
+}
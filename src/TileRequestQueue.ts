@@ -0,0 +1,128 @@
+interface QueuedTileRequest {
+  id: string;
+  priority: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Concurrency-limited tile request scheduler
+ *
+ * Queued requests start in priority order (lowest value first) so tiles near
+ * the viewport centre load before the ones at the edges.
+ */
+export class TileRequestQueue {
+  private _maxConcurrent: number;
+  private _queue: QueuedTileRequest[] = [];
+  private _activeCount = 0;
+
+  constructor(maxConcurrent: number = 6) {
+    this._maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  /**
+   * Queue a request, starting it right away if a slot is free
+   */
+  enqueue(id: string, priority: number, run: () => Promise<void>): void {
+    this._queue.push({ id, priority, run });
+    this._next();
+  }
+
+  /**
+   * Drop a request that has not started yet
+   */
+  cancel(id: string): boolean {
+    const index = this._queue.findIndex((request) => request.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    this._queue.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Check if a request is waiting in the queue
+   */
+  has(id: string): boolean {
+    return this._queue.some((request) => request.id === id);
+  }
+
+  /**
+   * Recompute priorities of queued requests, e.g. after the map was panned
+   */
+  reprioritize(getPriority: (id: string) => number): void {
+    this._queue.forEach((request) => {
+      request.priority = getPriority(request.id);
+    });
+  }
+
+  /**
+   * Remove queued requests rejected by the predicate and return their IDs
+   */
+  filter(keep: (id: string) => boolean): string[] {
+    const removed: string[] = [];
+    this._queue = this._queue.filter((request) => {
+      if (keep(request.id)) {
+        return true;
+      }
+      removed.push(request.id);
+      return false;
+    });
+    return removed;
+  }
+
+  /**
+   * Drop all queued requests
+   */
+  clear(): void {
+    this._queue = [];
+  }
+
+  get pendingCount(): number {
+    return this._queue.length;
+  }
+
+  get activeCount(): number {
+    return this._activeCount;
+  }
+
+  /**
+   * Start queued requests while concurrency slots are available
+   */
+  private _next(): void {
+    while (this._activeCount < this._maxConcurrent && this._queue.length > 0) {
+      const request = this._dequeueHighestPriority();
+      this._activeCount++;
+
+      this._start(request)
+        .catch(() => {
+          // Request errors are handled by the caller
+        })
+        .finally(() => {
+          this._activeCount--;
+          this._next();
+        });
+    }
+  }
+
+  /**
+   * Start a request synchronously so free slots are used without delay
+   */
+  private _start(request: QueuedTileRequest): Promise<void> {
+    try {
+      return request.run();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  private _dequeueHighestPriority(): QueuedTileRequest {
+    let bestIndex = 0;
+    for (let i = 1; i < this._queue.length; i++) {
+      if (this._queue[i].priority < this._queue[bestIndex].priority) {
+        bestIndex = i;
+      }
+    }
+    return this._queue.splice(bestIndex, 1)[0];
+  }
+}
@@ -0,0 +1,204 @@
+import { VectorTile } from '@mapbox/vector-tile';
+import {
+  DecodedVectorTile,
+  PackedVectorTileLayer,
+  decodeVectorTile,
+  getTransferables,
+  packVectorTile,
+} from './TileDecoder';
+import { TileDecodeError, TileLoadError } from './TileLoader';
+
+type TileWorkerRequest =
+  | { id: number; type: 'decode'; data: ArrayBuffer; tileSize: number }
+  | { id: number; type: 'load'; url: string; headers: Record<string, string>; tileSize: number }
+  | { id: number; type: 'abort' };
+
+type TileWorkerResponse =
+  | { id: number; layers: PackedVectorTileLayer[] }
+  | { id: number; error: { name: string; message: string; status?: number } };
+
+interface TileWorkerScope {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+interface PendingDecode {
+  resolve: (vectorTile: VectorTile) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Handle tile requests inside a Web Worker
+ *
+ * Call from the worker entry point:
+ * ```ts
+ * import { installTileWorker } from 'google-maps-vector-engine';
+ * installTileWorker(self);
+ * ```
+ */
+export function installTileWorker(scope: TileWorkerScope): void {
+  const controllers = new Map<number, AbortController>();
+
+  const fetchTile = async (url: string, headers: Record<string, string>, signal: AbortSignal): Promise<ArrayBuffer> => {
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw error;
+      }
+      throw new TileLoadError(`Failed to load tile: ${url}`, 0);
+    }
+    if (response.status !== 200) {
+      throw new TileLoadError(`Unexpected tile response ${response.status}: ${url}`, response.status);
+    }
+    return response.arrayBuffer();
+  };
+
+  scope.addEventListener('message', (event: MessageEvent) => {
+    const request = event.data as TileWorkerRequest;
+    if (request.type === 'abort') {
+      controllers.get(request.id)?.abort();
+      controllers.delete(request.id);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(request.id, controller);
+
+    const data =
+      request.type === 'load'
+        ? fetchTile(request.url, request.headers, controller.signal)
+        : Promise.resolve(request.data);
+
+    data
+      .then((buffer) => decodeVectorTile(buffer))
+      .then((vectorTile) => {
+        const layers = packVectorTile(vectorTile, request.tileSize);
+        const response: TileWorkerResponse = { id: request.id, layers };
+        scope.postMessage(response, getTransferables(layers));
+      })
+      .catch((error: Error) => {
+        const response: TileWorkerResponse = {
+          id: request.id,
+          error: { name: error.name, message: error.message, status: (error as TileLoadError).status },
+        };
+        scope.postMessage(response, []);
+      })
+      .finally(() => {
+        controllers.delete(request.id);
+      });
+  });
+}
+
+/**
+ * Main thread side of the tile worker
+ *
+ * Tiles come back as DecodedVectorTile instances with geometry pre-projected to
+ * tile pixels, used in place of a VectorTile.
+ */
+export class TileWorkerClient {
+  private _worker: Worker;
+  private _pending: Map<number, PendingDecode> = new Map();
+  private _nextId = 1;
+
+  constructor(worker: Worker) {
+    this._worker = worker;
+    this._worker.addEventListener('message', this._onMessage);
+  }
+
+  /**
+   * Decode tile bytes in the worker
+   *
+   * A copy of the bytes is transferred, as tile loaders may return the same
+   * buffer again and a transferred buffer is detached.
+   */
+  decode(data: ArrayBuffer, tileSize: number, signal?: AbortSignal): Promise<VectorTile> {
+    const copy = data.slice(0);
+    return this._send({ type: 'decode', data: copy, tileSize }, [copy], signal);
+  }
+
+  /**
+   * Fetch and decode a tile in the worker
+   */
+  load(url: string, headers: Record<string, string>, tileSize: number, signal?: AbortSignal): Promise<VectorTile> {
+    return this._send({ type: 'load', url, headers, tileSize }, [], signal);
+  }
+
+  /**
+   * Reject pending requests and stop listening to the worker
+   */
+  dispose(): void {
+    this._worker.removeEventListener('message', this._onMessage);
+    this._pending.forEach((pending) => {
+      pending.reject(new DOMException('Tile worker disposed', 'AbortError'));
+    });
+    this._pending.clear();
+  }
+
+  private _send(
+    message:
+      | { type: 'decode'; data: ArrayBuffer; tileSize: number }
+      | { type: 'load'; url: string; headers: Record<string, string>; tileSize: number },
+    transfer: Transferable[],
+    signal?: AbortSignal,
+  ): Promise<VectorTile> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Tile request aborted', 'AbortError'));
+    }
+
+    const id = this._nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        this._pending.delete(id);
+        this._worker.postMessage({ id, type: 'abort' } as TileWorkerRequest);
+        reject(new DOMException('Tile request aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this._pending.set(id, {
+        resolve: (vectorTile) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(vectorTile);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+      this._worker.postMessage({ ...message, id } as TileWorkerRequest, transfer);
+    });
+  }
+
+  private _onMessage = (event: MessageEvent): void => {
+    const response = event.data as TileWorkerResponse;
+    const pending = this._pending.get(response.id);
+    if (!pending) {
+      return;
+    }
+    this._pending.delete(response.id);
+
+    if ('error' in response) {
+      pending.reject(TileWorkerClient._toError(response.error));
+      return;
+    }
+    // Structurally compatible with the parts of VectorTile used for rendering
+    pending.resolve(new DecodedVectorTile(response.layers) as unknown as VectorTile);
+  };
+
+  /**
+   * Rebuild the error classes lost when errors are posted between threads
+   */
+  private static _toError(error: { name: string; message: string; status?: number }): Error {
+    switch (error.name) {
+      case 'TileLoadError':
+        return new TileLoadError(error.message, error.status || 0);
+      case 'TileDecodeError':
+        return new TileDecodeError(error.message);
+      case 'AbortError':
+        return new DOMException(error.message, 'AbortError');
+      default:
+        return new Error(error.message);
+    }
+  }
+}
@@ -26,17 +26,104 @@ export interface LatLng {
 export interface FeatureStyle {
   fillStyle?: string;
   fillOpacity?: number;
+  fillPattern?: FillPattern; // Drawn over fillStyle
   strokeStyle?: string;
   lineWidth?: number;
+  lineDash?: number[]; // Alternating dash and gap lengths in pixels
+  lineCap?: CanvasLineCap; // Defaults to round
+  lineJoin?: CanvasLineJoin; // Defaults to round
+  miterLimit?: number;
+  lineOffset?: number; // Pixels right of the line direction, negative for left, lines only
   radius?: number;
+  label?: LabelStyle;
+  icon?: IconStyle;
   selected?: Partial<FeatureStyle>; // Embedded selected style like the working old version
   hover?: Partial<FeatureStyle>; // Embedded hover style for hover states
 }
 
+export type LabelAnchor = 'center' | 'top' | 'bottom' | 'left' | 'right';
+
+export interface LabelStyle {
+  textField: string; // Property name, or template with {property} placeholders
+  font?: string; // Font family, defaults to sans-serif
+  fontSize?: number; // CSS pixels, defaults to 12
+  fontWeight?: string | number;
+  color?: string;
+  haloColor?: string;
+  haloWidth?: number;
+  anchor?: LabelAnchor; // Side of the text placed at the point, point and polygon labels only
+  offset?: [number, number]; // CSS pixels, point and polygon labels only
+  padding?: number; // Minimum distance to other labels, defaults to 2
+}
+
+export interface HatchPattern {
+  type: 'diagonal' | 'cross' | 'dots';
+  color?: string; // Defaults to #000000
+  spacing?: number; // Pixels between lines or dots, defaults to 8
+  lineWidth?: number; // Line width, or dot radius, defaults to 1
+}
+
+// Hatch, image URL or element, or canvas repeated over polygons
+export type FillPattern = HatchPattern | string | HTMLImageElement | HTMLCanvasElement;
+
+// Image positions in a sprite sheet, in the format of MapLibre sprite JSON files
+export interface SpriteImage {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixelRatio?: number; // Image pixels per CSS pixel, defaults to 1
+}
+
+export interface SpriteSheet {
+  image: string | HTMLImageElement;
+  sprites: Record<string, SpriteImage>;
+}
+
+export interface IconStyle {
+  image?: string | HTMLImageElement; // Image URL or element, ignored when sprite is set
+  sprite?: SpriteSheet;
+  spriteName?: string; // Image of the sprite sheet to draw
+  size?: number; // Scale factor, defaults to 1
+  rotation?: number; // Degrees clockwise
+  rotationProperty?: string; // Feature property in degrees clockwise, added to rotation
+  anchor?: LabelAnchor; // Side of the icon placed at the point
+  opacity?: number;
+}
+
+// Arbitrary per-feature state set with MVTSource.setFeatureState
+export type FeatureState = Record<string, unknown>;
+
+// Inputs a style function may depend on
+export interface FeatureStyleContext {
+  feature: VectorTileFeature;
+  layerName: string;
+  zoom: number;
+  selected: boolean;
+  hovered: boolean;
+  featureState: FeatureState;
+}
+
 export interface FeatureStyleFunction {
-  (feature: VectorTileFeature): FeatureStyle;
+  (feature: VectorTileFeature, context: FeatureStyleContext): FeatureStyle;
 }
 
+// JSON style expressions compiled by StyleExpressions, e.g. ['match', ['get', 'class'], 'primary', 4, 1]
+export type StyleExpression = string | number | boolean | null | StyleExpression[];
+
+export type ExpressionStyle = {
+  [K in Exclude<keyof FeatureStyle, 'selected' | 'hover' | 'label' | 'icon' | 'fillPattern'>]?: StyleExpression;
+} & {
+  fillPattern?: FillPattern | StyleExpression;
+  label?: { [K in keyof LabelStyle]?: StyleExpression };
+  icon?: { [K in Exclude<keyof IconStyle, 'image' | 'sprite'>]?: StyleExpression } & {
+    image?: HTMLImageElement | StyleExpression;
+    sprite?: SpriteSheet;
+  };
+  selected?: ExpressionStyle;
+  hover?: ExpressionStyle;
+};
+
 // Event interfaces
 export interface MVTMouseEvent {
   latLng: google.maps.LatLng;
@@ -67,6 +154,19 @@ export interface TileFeatureData {
   divisor: number;
   context2d: CanvasRenderingContext2D | null;
   paths2d: Path2D | null;
+  offsetPaths2d?: { offset: number; paths2d: Path2D }; // Path of the last line offset drawn
+  iconBox?: IconBox; // Where the icon of a point feature was last drawn
+}
+
+// Icon rectangle around its anchor point, before rotation
+export interface IconBox {
+  x: number;
+  y: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  angle: number; // Radians clockwise
 }
 
 export interface CanvasAndFeatures {
@@ -96,29 +196,199 @@ export interface FeatureSelectionCallback {
 // Event callback types
 export type ClickEventCallback = (event: MVTMouseEvent) => void;
 export type HoverEventCallback = (event: MVTMouseEvent) => void;
+export type TileErrorCallback = (tileCoord: TileCoord, status: number, error: Error) => void;
 
 // Tile availability manifest types
 export interface TileManifest {
   [zoomLevel: string]: {
-    [xCoordinate: string]: Array<[number, number]>; // [y_start, y_end] ranges
+    [xCoordinate: string]: Array<[number, number]>; // [y_start, y_end] ranges, keyed by "x" or "x_start-x_end"
+  };
+}
+
+export interface BoundingBoxManifest {
+  type: 'bbox';
+  bounds: [number, number, number, number] | [number, number, number, number][]; // [west, south, east, north]
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+export interface ZoomExtentManifest {
+  type: 'extent';
+  zooms: {
+    [zoomLevel: string]: { minX: number; maxX: number; minY: number; maxY: number };
   };
 }
 
-export type TileAvailabilitySource = TileManifest | (() => Promise<TileManifest>) | (() => TileManifest);
+export type TileAvailabilityManifest = TileManifest | BoundingBoxManifest | ZoomExtentManifest;
+
+export type TileAvailabilitySource =
+  | TileAvailabilityManifest
+  | (() => Promise<TileAvailabilityManifest>)
+  | (() => TileAvailabilityManifest);
+
+// Tile loading
+export type TileUrlFunction = (coord: TileCoord) => string;
+export type TileUrl = string | TileUrlFunction;
+
+export interface TileResponse {
+  data: ArrayBuffer;
+  etag?: string;
+  lastModified?: string;
+  notModified?: boolean; // 304 response to a conditional request
+}
+
+export type HeadersProvider = (options: {
+  forceRefresh: boolean; // Set after a 401 response, cached credentials should be renewed
+}) => Promise<Record<string, string>> | Record<string, string>;
+
+export interface TileLoader {
+  (coord: TileCoord, signal: AbortSignal, headers: Record<string, string>): Promise<ArrayBuffer | TileResponse>;
+}
+
+// Persistent tile cache
+export interface PersistentCacheOptions {
+  namespace?: string; // Defaults to the URL template or PMTiles URL, required for other sources
+  ttl?: number; // Milliseconds before cached tiles are revalidated
+  maxSize?: number; // Quota in bytes
+  dbName?: string;
+}
+
+export interface CachedTile {
+  key: string;
+  namespace: string;
+  data: ArrayBuffer;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  accessedAt: number;
+}
+
+// PMTiles archives
+export type PMTilesSource = string | Blob | ArrayBuffer;
+
+export interface PMTilesHeader {
+  specVersion: number;
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  metadataOffset: number;
+  metadataLength: number;
+  leafDirectoryOffset: number;
+  leafDirectoryLength: number;
+  tileDataOffset: number;
+  tileDataLength: number;
+  numAddressedTiles: number;
+  numTileEntries: number;
+  numTileContents: number;
+  clustered: boolean;
+  internalCompression: PMTilesCompression;
+  tileCompression: PMTilesCompression;
+  tileType: number;
+  minZoom: number;
+  maxZoom: number;
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+  centerZoom: number;
+  centerLon: number;
+  centerLat: number;
+}
+
+// TileJSON metadata
+export interface TileJSONVectorLayer {
+  id: string;
+  description?: string;
+  minzoom?: number;
+  maxzoom?: number;
+  fields?: Record<string, string>;
+}
+
+export interface TileJSON {
+  tilejson?: string;
+  tiles: string[];
+  name?: string;
+  description?: string;
+  attribution?: string;
+  scheme?: 'xyz' | 'tms';
+  minzoom?: number;
+  maxzoom?: number;
+  bounds?: [number, number, number, number];
+  center?: [number, number, number];
+  vector_layers?: TileJSONVectorLayer[];
+}
+
+// MapLibre / Mapbox GL style documents, only the parts read by the style converter
+export interface MapLibreStyleSource {
+  type: string;
+  url?: string;
+  tiles?: string[];
+  scheme?: 'xyz' | 'tms';
+  minzoom?: number;
+  maxzoom?: number;
+  bounds?: [number, number, number, number];
+}
+
+export interface MapLibreStyleLayer {
+  id: string;
+  type: string;
+  source?: string;
+  'source-layer'?: string;
+  minzoom?: number;
+  maxzoom?: number;
+  filter?: unknown;
+  layout?: Record<string, unknown>;
+  paint?: Record<string, unknown>;
+}
+
+export interface MapLibreStyle {
+  version: number;
+  name?: string;
+  sources: Record<string, MapLibreStyleSource>;
+  layers: MapLibreStyleLayer[];
+}
 
 // Configuration interfaces
+export interface LayerOptions {
+  style?: FeatureStyle | FeatureStyleFunction;
+  filter?: FilterFunction | false;
+  minZoom?: number;
+  maxZoom?: number;
+  clickable?: boolean;
+  customDraw?: CustomDrawFunction;
+}
+
 export interface MVTSourceOptions {
-  url: string;
+  url: TileUrl;
+  subdomains?: string | string[];
   sourceMaxZoom?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  bounds?: [number, number, number, number]; // [west, south, east, north]
+  vectorLayers?: TileJSONVectorLayer[];
+  pmtiles?: PMTilesSource;
   debug?: boolean;
   getIDForLayerFeature?: (feature: VectorTileFeature) => string | number;
   defaultFeatureId?: string;
   visibleLayers?: string[];
+  layers?: Record<string, LayerOptions>; // Per-layer overrides of the source-wide options
   xhrHeaders?: Record<string, string>;
+  headersProvider?: HeadersProvider;
+  tileLoader?: TileLoader;
+  maxConcurrentRequests?: number;
+
+  // Failed tile retry configuration
+  maxTileRetries?: number;
+  tileRetryDelay?: number;
+  tileRetryMaxDelay?: number;
   clickableLayers?: string[];
-  filter?: (feature: VectorTileFeature, tileContext: TileContext) => boolean;
+  filter?: FilterFunction;
   cache?: boolean;
+  persistentCache?: boolean | PersistentCacheOptions;
+  refreshInterval?: number; // Milliseconds between refreshes of the visible tiles
+  decodeWorker?: Worker | (() => Worker);
   tileSize?: number;
+  pixelRatio?: number; // Canvas backing ratio, follows window.devicePixelRatio when unset
   style?: FeatureStyle | FeatureStyleFunction;
   selectedFeatures?: (string | number)[];
   customDraw?: CustomDrawFunction;
@@ -127,10 +397,12 @@ export interface MVTSourceOptions {
 
   // Tile availability manifest (optional)
   tileAvailabilityManifest?: TileAvailabilitySource;
+  manifestFallback?: boolean; // Render the nearest available ancestor of tiles missing from the manifest
 
   // Event handling configuration
   onClick?: ClickEventCallback;
   onMouseHover?: HoverEventCallback;
+  onTileError?: TileErrorCallback;
 
   // Selection behavior configuration
   multipleSelection?: boolean;
@@ -142,10 +414,11 @@ export interface MVTSourceOptions {
 
 export interface MVTLayerOptions {
   getIDForLayerFeature: (feature: VectorTileFeature) => string | number;
-  filter: ((feature: VectorTileFeature, tileContext: TileContext) => boolean) | false;
+  filter: FilterFunction | false;
   style: FeatureStyle | FeatureStyleFunction;
   name: string;
   customDraw: CustomDrawFunction | false;
+  getFeatureState?: (featureId: string | number) => FeatureState;
 }
 
 export interface MVTFeatureOptions {
@@ -156,6 +429,7 @@ export interface MVTFeatureOptions {
   selected: boolean;
   featureId: string | number;
   customDraw: CustomDrawFunction | false;
+  layerName?: string;
 }
 
 // Function types
@@ -166,7 +440,7 @@ export type CustomDrawFunction = (
   feature: any, // MVTFeature - using any to avoid circular dependency
 ) => void;
 
-export type FilterFunction = (feature: VectorTileFeature, tileContext: TileContext) => boolean;
+export type FilterFunction = (feature: VectorTileFeature, tileContext: TileContext, layerName: string) => boolean;
 
 export type IDExtractorFunction = (feature: VectorTileFeature) => string | number;
 
@@ -213,6 +487,15 @@ export interface IMVTLayer {
   setFilter(filter: FilterFunction | false): void;
 }
 
+// PMTiles compression types
+export enum PMTilesCompression {
+  Unknown = 0,
+  None = 1,
+  Gzip = 2,
+  Brotli = 3,
+  Zstd = 4,
+}
+
 // Geometry type constants
 export enum GeometryType {
   Point = 1,
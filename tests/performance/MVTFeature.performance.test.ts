@@ -34,6 +34,7 @@ class MockCanvas {
       stroke: jest.fn(),
       save: jest.fn(),
       restore: jest.fn(),
+      setLineDash: jest.fn(),
       isPointInPath: jest.fn(() => false)
     };
   }
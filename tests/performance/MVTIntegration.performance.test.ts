@@ -54,6 +54,7 @@ class MockCanvas {
       stroke: jest.fn(),
       save: jest.fn(),
       restore: jest.fn(),
+      setLineDash: jest.fn(),
       isPointInPath: jest.fn(() => false),
       measureText: jest.fn(() => ({ width: 50 })),
       fillText: jest.fn(),
@@ -105,6 +105,7 @@ Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
     rotate: jest.fn(),
     transform: jest.fn(),
     setTransform: jest.fn(),
+    setLineDash: jest.fn(),
     drawImage: jest.fn(),
     createLinearGradient: jest.fn(() => ({ addColorStop: jest.fn() })),
     createRadialGradient: jest.fn(() => ({ addColorStop: jest.fn() })),
@@ -0,0 +1,33 @@
+import { CollisionBox, CollisionIndex } from '../../src/CollisionIndex';
+
+describe('CollisionIndex', () => {
+  const box = (minX: number, minY: number, maxX: number, maxY: number): CollisionBox => ({ minX, minY, maxX, maxY });
+  let index: CollisionIndex;
+
+  beforeEach(() => {
+    index = new CollisionIndex(64);
+  });
+
+  test('should detect overlapping boxes across cells', () => {
+    index.insert('a', [box(50, 50, 100, 70)]);
+
+    expect(index.has('a')).toBe(true);
+    expect(index.collides([box(90, 60, 140, 80)])).toBe(true);
+    expect(index.collides([box(100, 50, 140, 70)])).toBe(false);
+    expect(index.collides([box(0, 0, 10, 10), box(60, 65, 70, 75)])).toBe(true);
+  });
+
+  test('should remove labels and replace boxes under the same key', () => {
+    index.insert('a', [box(0, 0, 20, 20)]);
+    index.insert('a', [box(200, 200, 220, 220)]);
+
+    expect(index.size).toBe(1);
+    expect(index.collides([box(5, 5, 10, 10)])).toBe(false);
+    expect(index.collides([box(205, 205, 210, 210)])).toBe(true);
+
+    index.remove('a');
+
+    expect(index.size).toBe(0);
+    expect(index.collides([box(205, 205, 210, 210)])).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { gzipSync } from 'zlib';
+import { DecompressionStream as NodeDecompressionStream } from 'stream/web';
+import { Compression } from '../../src/Compression';
+
+describe('Compression', () => {
+  const originalDecompressionStream = (global as any).DecompressionStream;
+
+  afterEach(() => {
+    (global as any).DecompressionStream = originalDecompressionStream;
+  });
+
+  test('should detect the gzip magic bytes', () => {
+    expect(Compression.isGzip(new Uint8Array(gzipSync(Buffer.from('tile'))))).toBe(true);
+    expect(Compression.isGzip(new Uint8Array([0x1a, 0x05]))).toBe(false);
+    expect(Compression.isGzip(new Uint8Array([0x1f]))).toBe(false);
+  });
+
+  test('should decompress gzip data', async () => {
+    (global as any).DecompressionStream = NodeDecompressionStream;
+
+    const result = await Compression.decompress(new Uint8Array(gzipSync(Buffer.from([1, 2, 3]))));
+
+    expect(Array.from(new Uint8Array(result))).toEqual([1, 2, 3]);
+  });
+
+  test('should reject corrupt data', async () => {
+    (global as any).DecompressionStream = NodeDecompressionStream;
+
+    await expect(Compression.decompress(new Uint8Array([0x1f, 0x8b, 0, 1, 2, 3]))).rejects.toBeDefined();
+  });
+
+  test('should reject when DecompressionStream is not supported', async () => {
+    delete (global as any).DecompressionStream;
+
+    expect(Compression.isSupported()).toBe(false);
+    await expect(Compression.decompress(new Uint8Array([0x1f, 0x8b]))).rejects.toThrow('not supported');
+  });
+});
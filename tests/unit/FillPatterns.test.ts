@@ -0,0 +1,52 @@
+import { FillPatterns } from '../../src/FillPatterns';
+import { createMockTileContext } from '../utils/mockData';
+
+describe('FillPatterns', () => {
+  afterEach(() => {
+    FillPatterns.clearCache();
+  });
+
+  test('should recognise hatches', () => {
+    expect(FillPatterns.isHatch({ type: 'diagonal' })).toBe(true);
+    expect(FillPatterns.isHatch({ type: 'stripes' })).toBe(false);
+    expect(FillPatterns.isHatch('https://patterns.com/sand.png')).toBe(false);
+    expect(FillPatterns.isHatch(document.createElement('canvas'))).toBe(false);
+  });
+
+  test('should draw hatch cells at the pixel ratio and cache them', () => {
+    const hatch = { type: 'cross' as const, spacing: 6, color: 'red' };
+
+    const canvas = FillPatterns.createHatchCanvas(hatch, 2);
+
+    expect(canvas.width).toBe(12);
+    expect(canvas.height).toBe(12);
+    expect(FillPatterns.createHatchCanvas({ ...hatch }, 2)).toBe(canvas);
+    expect(FillPatterns.createHatchCanvas(hatch, 1)).not.toBe(canvas);
+  });
+
+  test('should align patterns to world pixels', () => {
+    const pattern = { setTransform: jest.fn() };
+    const context2d = { createPattern: jest.fn(() => pattern) } as unknown as CanvasRenderingContext2D;
+    const image = document.createElement('canvas');
+    image.width = 20;
+    image.height = 20;
+
+    // Tile 3:1:2 starts at world pixel (256, 512)
+    const result = FillPatterns.createPattern(context2d, image, createMockTileContext({ id: '3:1:2' }), 0.5);
+
+    expect(result).toBe(pattern);
+    expect(context2d.createPattern).toHaveBeenCalledWith(image, 'repeat');
+    const matrix: DOMMatrix = pattern.setTransform.mock.calls[0][0];
+    expect([matrix.a, matrix.d, matrix.e, matrix.f]).toEqual([0.5, 0.5, -6, -2]);
+  });
+
+  test('should skip images without size', () => {
+    const context2d = {
+      createPattern: jest.fn(() => ({ setTransform: jest.fn() })),
+    } as unknown as CanvasRenderingContext2D;
+
+    expect(
+      FillPatterns.createPattern(context2d, document.createElement('img'), createMockTileContext({ id: '3:1:2' })),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { IconCache, loadSpriteSheet } from '../../src/IconCache';
+import { SpriteSheet } from '../../src/types';
+
+const markLoaded = (image: HTMLImageElement, width: number, height: number): void => {
+  Object.defineProperty(image, 'complete', { value: true, configurable: true });
+  Object.defineProperty(image, 'naturalWidth', { value: width, configurable: true });
+  Object.defineProperty(image, 'naturalHeight', { value: height, configurable: true });
+  image.dispatchEvent(new Event('load'));
+};
+
+describe('IconCache', () => {
+  test('should load URLs once and report the tiles waiting for them', () => {
+    const onLoad = jest.fn();
+    const cache = new IconCache(onLoad);
+
+    expect(cache.getIcon({ image: 'https://icons.com/cafe.png' }, '10:1:1')).toBeUndefined();
+    expect(cache.getIcon({ image: 'https://icons.com/cafe.png' }, '10:1:2')).toBeUndefined();
+    const image = (cache as any)._images.get('https://icons.com/cafe.png') as HTMLImageElement;
+    expect((cache as any)._images.size).toBe(1);
+    expect(image.src).toBe('https://icons.com/cafe.png');
+
+    markLoaded(image, 24, 16);
+
+    expect(onLoad).toHaveBeenCalledWith(['10:1:1', '10:1:2']);
+    expect(cache.getIcon({ image: 'https://icons.com/cafe.png' }, '10:1:1')).toEqual({
+      image,
+      x: 0,
+      y: 0,
+      width: 24,
+      height: 16,
+      pixelRatio: 1,
+    });
+  });
+
+  test('should resolve sprites from image elements', () => {
+    const onLoad = jest.fn();
+    const cache = new IconCache(onLoad);
+    const image = document.createElement('img');
+    const sprite: SpriteSheet = {
+      image,
+      sprites: {
+        cafe: { x: 0, y: 0, width: 32, height: 32, pixelRatio: 2 },
+        bus: { x: 32, y: 0, width: 16, height: 16 },
+      },
+    };
+
+    expect(cache.getIcon({ sprite, spriteName: 'bus' }, '10:1:1')).toBeUndefined();
+    markLoaded(image, 48, 32);
+
+    expect(onLoad).toHaveBeenCalledWith(['10:1:1']);
+    expect(cache.getIcon({ sprite, spriteName: 'bus' }, '10:1:1')).toEqual({
+      image,
+      x: 32,
+      y: 0,
+      width: 16,
+      height: 16,
+      pixelRatio: 1,
+    });
+    expect(cache.getIcon({ sprite, spriteName: 'cafe' }, '10:1:1')?.pixelRatio).toBe(2);
+    expect(cache.getIcon({ sprite, spriteName: 'missing' }, '10:1:1')).toBeUndefined();
+  });
+
+  test('should stop waiting for images that fail to load', () => {
+    const onLoad = jest.fn();
+    const cache = new IconCache(onLoad);
+    const image = document.createElement('img');
+
+    cache.getIcon({ image }, '10:1:1');
+    image.dispatchEvent(new Event('error'));
+    cache.getIcon({ image }, '10:1:2');
+    image.dispatchEvent(new Event('load'));
+
+    expect(onLoad).not.toHaveBeenCalled();
+  });
+
+  describe('loadSpriteSheet', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('should fetch the sprite index for the pixel ratio', async () => {
+      const sprites = { cafe: { x: 0, y: 0, width: 32, height: 32, pixelRatio: 2 } };
+      global.fetch = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(sprites) }) as any;
+
+      await expect(loadSpriteSheet('https://icons.com/sprite', 2)).resolves.toEqual({
+        image: 'https://icons.com/sprite@2x.png',
+        sprites,
+      });
+      expect(global.fetch).toHaveBeenCalledWith('https://icons.com/sprite@2x.json', expect.anything());
+    });
+
+    test('should reject failed requests', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }) as any;
+
+      await expect(loadSpriteSheet('https://icons.com/sprite', 1)).rejects.toThrow(
+        'Failed to fetch sprite: 404 Not Found',
+      );
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { LabelCandidate, LabelRenderer, getInteriorPoint } from '../../src/LabelRenderer';
+import { GeometryType, LabelStyle, TileContext } from '../../src/types';
+import { createMockTileContext } from '../utils/mockData';
+
+const createContext2d = (): CanvasRenderingContext2D =>
+  ({
+    save: jest.fn(),
+    restore: jest.fn(),
+    translate: jest.fn(),
+    rotate: jest.fn(),
+    fillText: jest.fn(),
+    strokeText: jest.fn(),
+    setLineDash: jest.fn(),
+    // Every glyph is 6px wide
+    measureText: jest.fn((text: string) => ({ width: text.length * 6 })),
+  }) as unknown as CanvasRenderingContext2D;
+
+const createTile = (id: string): { tileContext: TileContext; context2d: CanvasRenderingContext2D } => {
+  const context2d = createContext2d();
+  const tileContext = createMockTileContext({ id, zoom: 10 });
+  // Set on the canvas itself, the shared prototype mock would hand every tile the same context
+  tileContext.canvas.getContext = jest.fn().mockReturnValue(context2d);
+  return { tileContext, context2d };
+};
+
+const pointLabel = (key: string, x: number, y: number, style: Partial<LabelStyle> = {}): LabelCandidate => ({
+  key,
+  type: GeometryType.Point,
+  paths: [[{ x, y }]],
+  properties: { name: key },
+  style: { textField: 'name', ...style },
+});
+
+describe('LabelRenderer', () => {
+  let renderer: LabelRenderer;
+
+  beforeEach(() => {
+    renderer = new LabelRenderer();
+  });
+
+  test('should resolve text from a property or a template', () => {
+    const properties = { name: 'Main St', ref: 12, empty: null };
+
+    expect(LabelRenderer.getText('name', properties)).toBe('Main St');
+    expect(LabelRenderer.getText('{name} ({ref})', properties)).toBe('Main St (12)');
+    expect(LabelRenderer.getText('empty', properties)).toBe('');
+    expect(LabelRenderer.getText('{missing}', properties)).toBe('');
+  });
+
+  test('should draw point labels with halo, anchor and offset', () => {
+    const { tileContext, context2d } = createTile('10:0:0');
+
+    renderer.drawLabels(tileContext, [
+      pointLabel('cafe', 100, 100, { anchor: 'left', offset: [4, 0], haloColor: 'white', haloWidth: 1 }),
+    ]);
+
+    expect(context2d.translate).toHaveBeenCalledWith(116, 100);
+    expect(context2d.strokeText).toHaveBeenCalledWith('cafe', 0, 0);
+    expect(context2d.fillText).toHaveBeenCalledWith('cafe', 0, 0);
+    expect(context2d.lineWidth).toBe(2);
+  });
+
+  test('should skip labels overlapping labels of the same or neighbouring tiles', () => {
+    const left = createTile('10:0:0');
+    const right = createTile('10:1:0');
+
+    // "west" spans 224..248, its padding reaches 258 in the right tile
+    renderer.drawLabels(left.tileContext, [
+      pointLabel('west', 236, 100, { padding: 10 }),
+      pointLabel('wall', 230, 104),
+    ]);
+    renderer.drawLabels(right.tileContext, [pointLabel('east', 12, 100), pointLabel('far', 60, 100)]);
+
+    expect(left.context2d.fillText).toHaveBeenCalledTimes(1);
+    expect(right.context2d.fillText).toHaveBeenCalledTimes(1);
+    expect(right.context2d.fillText).toHaveBeenCalledWith('far', 0, 0);
+  });
+
+  test('should skip labels cut off at the tile edge and label features once per zoom', () => {
+    const left = createTile('10:0:0');
+    const right = createTile('10:1:0');
+
+    renderer.drawLabels(left.tileContext, [pointLabel('edge', 254, 100), pointLabel('road', 100, 100)]);
+    renderer.drawLabels(right.tileContext, [pointLabel('edge', 20, 100), pointLabel('road', 100, 100)]);
+
+    expect(left.context2d.fillText).toHaveBeenCalledTimes(1);
+    expect(left.context2d.fillText).toHaveBeenCalledWith('road', 0, 0);
+    expect(right.context2d.fillText).toHaveBeenCalledTimes(1);
+    expect(right.context2d.fillText).toHaveBeenCalledWith('edge', 0, 0);
+  });
+
+  test('should redraw placed labels and free them with their tile', () => {
+    const first = createTile('10:0:0');
+    renderer.drawLabels(first.tileContext, [pointLabel('a', 100, 248, { padding: 10 })]);
+    renderer.drawLabels(first.tileContext, [pointLabel('a', 100, 248, { padding: 10 })]);
+    expect(first.context2d.fillText).toHaveBeenCalledTimes(2);
+
+    // The tile below, within the padding of "a"
+    const second = createTile('10:0:1');
+    renderer.drawLabels(second.tileContext, [pointLabel('b', 100, 8)]);
+    expect(second.context2d.fillText).not.toHaveBeenCalled();
+
+    renderer.releaseTile('10:0:0');
+    renderer.drawLabels(second.tileContext, [pointLabel('b', 100, 8)]);
+    expect(second.context2d.fillText).toHaveBeenCalledWith('b', 0, 0);
+  });
+
+  test('should draw line labels glyph by glyph, upright along the path', () => {
+    const { tileContext, context2d } = createTile('10:0:0');
+    const line: LabelCandidate = {
+      key: 'road',
+      type: GeometryType.LineString,
+      // Drawn right to left, the label still reads left to right
+      paths: [
+        [
+          { x: 200, y: 100 },
+          { x: 20, y: 100 },
+        ],
+      ],
+      properties: { name: 'Main' },
+      style: { textField: 'name' },
+    };
+
+    renderer.drawLabels(tileContext, [line]);
+
+    expect((context2d.fillText as jest.Mock).mock.calls.map(([text]) => text)).toEqual(['M', 'a', 'i', 'n']);
+    const positions = (context2d.translate as jest.Mock).mock.calls;
+    expect(positions[0][0]).toBeCloseTo(101);
+    expect(positions[3][0]).toBeCloseTo(119);
+    expect(positions[3][1]).toBe(100);
+  });
+
+  test('should skip line labels longer than their line or bending too sharply', () => {
+    const { tileContext, context2d } = createTile('10:0:0');
+    const line = (key: string, paths: { x: number; y: number }[][]): LabelCandidate => ({
+      key,
+      type: GeometryType.LineString,
+      paths,
+      properties: { name: 'Long name' },
+      style: { textField: 'name' },
+    });
+
+    renderer.drawLabels(tileContext, [
+      line('short', [
+        [
+          { x: 10, y: 10 },
+          { x: 40, y: 10 },
+        ],
+      ]),
+      line('bent', [
+        [
+          { x: 100, y: 100 },
+          { x: 130, y: 100 },
+          { x: 100, y: 130 },
+        ],
+      ]),
+    ]);
+
+    expect(context2d.fillText).not.toHaveBeenCalled();
+  });
+
+  describe('getInteriorPoint', () => {
+    test('should use the centroid of convex polygons', () => {
+      const square = [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+        { x: 0, y: 100 },
+      ];
+
+      expect(getInteriorPoint([square])).toEqual({ x: 50, y: 50 });
+    });
+
+    test('should stay inside polygons whose centroid falls in a hole', () => {
+      const outer = [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 100, y: 100 },
+        { x: 0, y: 100 },
+      ];
+      const hole = [
+        { x: 20, y: 20 },
+        { x: 20, y: 80 },
+        { x: 90, y: 80 },
+        { x: 90, y: 20 },
+      ];
+
+      expect(getInteriorPoint([outer, hole])).toEqual({ x: 10, y: 50 });
+    });
+  });
+});
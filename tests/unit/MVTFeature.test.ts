@@ -1,4 +1,5 @@
 import { MVTFeature } from '../../src/MVTFeature';
+import { Mercator } from '../../src/Mercator';
 import { MVTFeatureOptions, GeometryType } from '../../src/types';
 import {
   createMockMVTSource,
@@ -195,6 +196,137 @@ describe('MVTFeature', () => {
       }).not.toThrow();
     });
 
+    test('should draw icons around their anchor and hit-test their bounds', () => {
+      const image = document.createElement('img');
+      mockMVTSource.getIcon = jest.fn(() => ({ image, x: 32, y: 0, width: 40, height: 20, pixelRatio: 2 }));
+      const pointFeature = createMockPointFeature({
+        properties: { heading: 90 },
+        loadGeometry: jest.fn(() => [[{ x: 1600, y: 1600 }]]),
+      });
+      const iconFeature = new MVTFeature({
+        ...featureOptions,
+        vectorTileFeature: pointFeature,
+        style: { icon: { image: 'poi.png', anchor: 'bottom', rotationProperty: 'heading', size: 2 } },
+      });
+      const mockContext = { ...createMockCanvasContext(), rotate: jest.fn(), drawImage: jest.fn() };
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+
+      iconFeature.draw(tileContext);
+
+      expect(mockContext.translate).toHaveBeenCalledWith(100, 100);
+      expect(mockContext.rotate).toHaveBeenCalledWith(Math.PI / 2);
+      expect(mockContext.drawImage).toHaveBeenCalledWith(image, 32, 0, 40, 20, -20, -20, 40, 20);
+      expect(mockContext.arc).not.toHaveBeenCalled();
+      // Standing on the point and turned clockwise, the icon extends right of it
+      expect(iconFeature.isPointInIcon({ x: 115, y: 90 }, tileContext)).toBe(true);
+      expect(iconFeature.isPointInIcon({ x: 95, y: 85 }, tileContext)).toBe(false);
+      expect(iconFeature.isPointInIcon({ x: 85, y: 100 }, tileContext)).toBe(false);
+    });
+
+    test('should skip icons until their image is loaded', () => {
+      mockMVTSource.getIcon = jest.fn(() => undefined);
+      const iconFeature = new MVTFeature({
+        ...featureOptions,
+        vectorTileFeature: createMockPointFeature(),
+        style: { icon: { image: 'poi.png' } },
+      });
+      const mockContext = { ...createMockCanvasContext(), drawImage: jest.fn() };
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+
+      iconFeature.draw(tileContext);
+
+      expect(mockMVTSource.getIcon).toHaveBeenCalledWith({ image: 'poi.png' }, tileContext.id);
+      expect(mockContext.drawImage).not.toHaveBeenCalled();
+      expect(iconFeature.hasIcon(tileContext)).toBe(false);
+    });
+
+    test('should apply line dash, cap and join, resetting them for solid lines', () => {
+      const lineFeature = new MVTFeature({
+        ...featureOptions,
+        vectorTileFeature: createMockLineFeature(),
+        style: { strokeStyle: 'red', lineDash: [4, 2], lineCap: 'butt', lineJoin: 'miter', miterLimit: 4 },
+      });
+      const mockContext = createMockCanvasContext();
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+
+      lineFeature.draw(tileContext);
+
+      expect(mockContext.setLineDash).toHaveBeenLastCalledWith([4, 2]);
+      expect(mockContext.lineCap).toBe('butt');
+      expect(mockContext.lineJoin).toBe('miter');
+      expect(mockContext.miterLimit).toBe(4);
+
+      lineFeature.setStyle({ strokeStyle: 'red' });
+      lineFeature.draw(tileContext);
+
+      expect(mockContext.setLineDash).toHaveBeenLastCalledWith([]);
+      expect(mockContext.lineCap).toBe('round');
+    });
+
+    test('should stroke offset lines parallel to their geometry', () => {
+      const lineFeature = new MVTFeature({
+        ...featureOptions,
+        vectorTileFeature: createMockLineFeature(),
+        style: { strokeStyle: 'red', lineOffset: 3 },
+      });
+      const offsetLine = jest.spyOn(Mercator, 'offsetLine');
+      const mockContext = createMockCanvasContext();
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+
+      lineFeature.draw(tileContext);
+
+      expect(offsetLine).toHaveBeenCalledWith(lineFeature.getPaths(tileContext)[0], 3);
+      expect(mockContext.stroke).toHaveBeenCalledTimes(1);
+      offsetLine.mockRestore();
+    });
+
+    test('should reuse offset paths until the offset changes', () => {
+      const lineFeature = new MVTFeature({
+        ...featureOptions,
+        vectorTileFeature: createMockLineFeature(),
+        style: { strokeStyle: 'red', lineOffset: 3 },
+      });
+      const offsetLine = jest.spyOn(Mercator, 'offsetLine');
+      const mockContext = createMockCanvasContext();
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+
+      lineFeature.draw(tileContext);
+      lineFeature.draw(tileContext);
+      expect(offsetLine).toHaveBeenCalledTimes(1);
+      expect(mockContext.stroke.mock.calls[1][0]).toBe(mockContext.stroke.mock.calls[0][0]);
+
+      lineFeature.setStyle({ strokeStyle: 'red', lineOffset: -2 });
+      lineFeature.draw(tileContext);
+      expect(offsetLine).toHaveBeenLastCalledWith(lineFeature.getPaths(tileContext)[0], -2);
+      offsetLine.mockRestore();
+    });
+
+    test('should fill polygons with hatch patterns over their fill color', () => {
+      const pattern = { setTransform: jest.fn() };
+      const mockContext = { ...createMockCanvasContext(), createPattern: jest.fn(() => pattern) };
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+      feature.setStyle({ fillStyle: 'yellow', fillPattern: { type: 'diagonal', color: 'red' } });
+
+      feature.draw(tileContext);
+
+      expect(mockContext.fill).toHaveBeenCalledTimes(2);
+      expect(mockContext.createPattern).toHaveBeenCalledWith(expect.any(HTMLCanvasElement), 'repeat');
+      expect(mockContext.fillStyle).toBe(pattern);
+    });
+
+    test('should fill polygons with image patterns once loaded', () => {
+      mockMVTSource.getIcon = jest.fn(() => undefined);
+      const mockContext = { ...createMockCanvasContext(), createPattern: jest.fn() };
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+      feature.setStyle({ fillPattern: 'https://patterns.com/sand.png' });
+
+      feature.draw(tileContext);
+
+      expect(mockMVTSource.getIcon).toHaveBeenCalledWith({ image: 'https://patterns.com/sand.png' }, tileContext.id);
+      expect(mockContext.createPattern).not.toHaveBeenCalled();
+      expect(mockContext.fill).not.toHaveBeenCalled();
+    });
+
     test('should use custom draw function when provided', () => {
       const customDraw = jest.fn();
       const customOptions = { ...featureOptions, customDraw };
@@ -206,6 +338,33 @@ describe('MVTFeature', () => {
     });
   });
 
+  describe('Hit Testing', () => {
+    const originalPath2D = (global as any).Path2D;
+
+    beforeEach(() => {
+      (global as any).Path2D = class {
+        moveTo = jest.fn();
+        lineTo = jest.fn();
+        closePath = jest.fn();
+        addPath = jest.fn();
+      };
+    });
+
+    afterEach(() => {
+      (global as any).Path2D = originalPath2D;
+    });
+
+    test('should test points in device pixels on HiDPI canvases', () => {
+      tileContext.canvas.width = 512;
+      tileContext.canvas.height = 512;
+      const mockContext = createMockCanvasContext();
+      jest.spyOn(tileContext.canvas, 'getContext').mockReturnValue(mockContext);
+
+      expect(feature.isPointInPath({ x: 10, y: 20 }, tileContext)).toBe(true);
+      expect(mockContext.isPointInPath).toHaveBeenCalledWith(expect.anything(), 20, 40);
+    });
+  });
+
   describe('Performance', () => {
     test('should handle rapid style changes efficiently', () => {
       const startTime = performance.now();
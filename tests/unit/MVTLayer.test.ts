@@ -160,6 +160,25 @@ describe('MVTLayer', () => {
       expect(feature).toBeDefined();
       expect(feature.style).toEqual({ fillStyle: 'purple' });
     });
+
+    test('should pass the layer name and tile zoom to style functions', () => {
+      const tileContext = createMockTileContext();
+      const vectorTileFeature = createMockVectorTileFeature({ id: 'context-feature' });
+
+      const styleFunction = jest.fn(() => ({ fillStyle: 'purple' }));
+      layer.setStyle(styleFunction);
+      layer.parseVectorTileFeatures(mockMVTSource, [vectorTileFeature], tileContext);
+
+      expect(styleFunction).toHaveBeenCalledWith(vectorTileFeature, {
+        feature: vectorTileFeature,
+        layerName: 'testLayer',
+        zoom: tileContext.zoom,
+        selected: false,
+        hovered: false,
+        featureState: {},
+      });
+      expect(layer._mVTFeatures['context-feature'].layerName).toBe('testLayer');
+    });
   });
 
   describe('Filter Management', () => {
@@ -201,6 +220,37 @@ describe('MVTLayer', () => {
     });
   });
 
+  describe('Tile Release', () => {
+    test('should drop features that are only drawn in the released tile', () => {
+      const tileContext = createMockTileContext();
+      const feature = createMockVectorTileFeature({ id: 'released' });
+      mockMVTSource.releaseFeature = jest.fn();
+
+      layer.parseVectorTileFeatures(mockMVTSource, [feature], tileContext);
+      const mVTFeature = layer.getFeature('released')!;
+
+      layer.releaseTile(tileContext.id);
+
+      expect(layer.getFeature('released')).toBeUndefined();
+      expect(layer.getCanvas(tileContext.id)).toBeNull();
+      expect(mockMVTSource.releaseFeature).toHaveBeenCalledWith(mVTFeature);
+    });
+
+    test('should keep features that span other loaded tiles', () => {
+      const firstTile = createMockTileContext();
+      const secondTile = createMockTileContext();
+      const feature = createMockVectorTileFeature({ id: 'shared' });
+
+      layer.parseVectorTileFeatures(mockMVTSource, [feature], firstTile);
+      layer.parseVectorTileFeatures(mockMVTSource, [feature], secondTile);
+      layer.releaseTile(firstTile.id);
+
+      const mVTFeature = layer.getFeature('shared');
+      expect(mVTFeature).toBeDefined();
+      expect(Object.keys(mVTFeature!.tiles)).toEqual([secondTile.id]);
+    });
+  });
+
   describe('Click Detection', () => {
     beforeEach(() => {
       const tileContext = createMockTileContext();
@@ -245,6 +295,24 @@ describe('MVTLayer', () => {
       expect(result.feature).toBeDefined();
     });
 
+    test('should hit-test point features with an icon by its bounds', () => {
+      const tileContext = createMockTileContext();
+      layer.parseVectorTileFeatures(mockMVTSource, [createMockPointFeature({ id: 'poi' })], tileContext);
+      const feature = layer.getTileFeatures(tileContext.id)[0];
+      // Icon drawn 20px above the point, far outside the default radius
+      feature.getTile(tileContext).iconBox = { x: 50, y: 50, minX: -10, minY: -30, maxX: 10, maxY: -10, angle: 0 };
+      jest.spyOn(feature, 'getPaths').mockReturnValue([[{ x: 50, y: 50 }]]);
+
+      expect(
+        layer.handleClickEvent(createMockMouseEvent({ tilePoint: { x: 50, y: 30 }, tileContext }), mockMVTSource)
+          .feature,
+      ).toBe(feature);
+      expect(
+        layer.handleClickEvent(createMockMouseEvent({ tilePoint: { x: 50, y: 50 }, tileContext }), mockMVTSource)
+          .feature,
+      ).toBeUndefined();
+    });
+
     test('should find closest feature when multiple features overlap', () => {
       const clickEvent = createMockMouseEvent({
         tilePoint: { x: 50, y: 50 }, // Point that might hit multiple features
@@ -8,6 +8,14 @@ jest.mock('pbf', () => jest.fn());
 
 import { MVTSource } from '../../src/MVTSource';
 import { MVTFeature } from '../../src/MVTFeature';
+import { LabelRenderer } from '../../src/LabelRenderer';
+import { PersistentTileCache } from '../../src/PersistentTileCache';
+import { TileDecodeError, TileLoadError } from '../../src/TileLoader';
+import { FeatureStyleContext } from '../../src/types';
+import { VectorTile, VectorTileFeature } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import { gzipSync } from 'zlib';
+import { DecompressionStream as NodeDecompressionStream } from 'stream/web';
 
 // Mock Google Maps types
 const mockMap = {
@@ -32,6 +40,17 @@ global.console = {
   error: jest.fn(),
 };
 
+// Tiles load through timers and promises, run them without waiting in real time
+const wait = (ms: number): Promise<void> => jest.advanceTimersByTimeAsync(ms);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
 describe('MVTSource Race Condition Fix', () => {
   let mvtSource: MVTSource;
   let mockGetReplacementFeature: jest.Mock;
@@ -118,7 +137,7 @@ describe('MVTSource Race Condition Fix', () => {
     deselectFeature('test-feature');
 
     // Wait for the async operation to complete
-    await new Promise((resolve) => setTimeout(resolve, 150));
+    await wait(150);
 
     // The callback should only be called for the deselection, not for the completed replacement
     expect(mockFeatureSelectionCallback).toHaveBeenCalledTimes(1);
@@ -186,7 +205,7 @@ describe('MVTSource Race Condition Fix', () => {
     selectFeature('test-feature');
 
     // Wait for any async operations
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    await wait(100);
 
     // Should handle this gracefully without errors
     expect(callCount).toBeGreaterThan(0);
@@ -243,3 +262,881 @@ describe('MVTSource Race Condition Fix', () => {
     expect(pendingRequests.size).toBe(0);
   });
 });
+
+describe('MVTSource Tile Loading', () => {
+  let mvtSource: MVTSource;
+
+  afterEach(() => {
+    mvtSource?.dispose();
+  });
+
+  test('should fetch tiles through a custom tile loader', () => {
+    const tileLoader = jest.fn(() => new Promise<ArrayBuffer>(() => {}));
+
+    mvtSource = new MVTSource(mockMap, {
+      url: 'https://example.com/{z}/{x}/{y}.pbf',
+      xhrHeaders: { 'X-Api-Key': 'secret' },
+      tileLoader,
+    });
+
+    mvtSource.drawTile({ x: 3, y: 5 } as google.maps.Point, 4, document);
+
+    expect(tileLoader).toHaveBeenCalledWith({ z: 4, x: 3, y: 5 }, expect.any(AbortSignal), { 'X-Api-Key': 'secret' });
+  });
+
+  test('should abort in-flight tile requests on dispose', () => {
+    let signal: AbortSignal | undefined;
+    const tileLoader = jest.fn((_coord, requestSignal: AbortSignal) => {
+      signal = requestSignal;
+      return new Promise<ArrayBuffer>(() => {});
+    });
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader });
+    mvtSource.drawTile({ x: 0, y: 0 } as google.maps.Point, 2, document);
+    mvtSource.dispose();
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('should cap concurrent tile requests and drop released tiles from the queue', async () => {
+    const tileLoader = jest.fn(() => new Promise<ArrayBuffer>(() => {}));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, maxConcurrentRequests: 1 });
+    mvtSource.getTile({ x: 0, y: 0 } as google.maps.Point, 2, document);
+    const queuedTile = mvtSource.getTile({ x: 1, y: 0 } as google.maps.Point, 2, document);
+    await wait(0);
+
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect((mvtSource as any)._requestQueue.has('2:1:0')).toBe(true);
+
+    mvtSource.releaseTile(queuedTile);
+
+    expect((mvtSource as any)._requestQueue.has('2:1:0')).toBe(false);
+  });
+
+  test('should abort the tile request when Google Maps releases the tile', () => {
+    let signal: AbortSignal | undefined;
+    const tileLoader = jest.fn((_coord, requestSignal: AbortSignal) => {
+      signal = requestSignal;
+      return new Promise<ArrayBuffer>(() => {});
+    });
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader });
+    const tile = mvtSource.getTile({ x: 1, y: 2 } as google.maps.Point, 3, document);
+
+    mvtSource.releaseTile(tile);
+
+    expect(signal?.aborted).toBe(true);
+    expect((mvtSource as any)._tileRequests.size).toBe(0);
+    expect((mvtSource as any)._visibleTiles['3:1:2']).toBeUndefined();
+    expect((tile as HTMLCanvasElement).width).toBe(0);
+  });
+
+  test('should skip tiles outside of the source bounds and zoom range', () => {
+    const tileLoader = jest.fn(() => new Promise<ArrayBuffer>(() => {}));
+
+    // Western Europe
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, minZoom: 3, bounds: [-10, 35, 5, 52] });
+    mvtSource.drawTile({ x: 0, y: 0 } as google.maps.Point, 2, document);
+    mvtSource.drawTile({ x: 0, y: 0 } as google.maps.Point, 4, document);
+    mvtSource.drawTile({ x: 7, y: 5 } as google.maps.Point, 4, document);
+
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect(tileLoader).toHaveBeenCalledWith({ z: 4, x: 7, y: 5 }, expect.any(AbortSignal), {});
+  });
+
+  test('should expose vector layers from the source metadata', () => {
+    mvtSource = new MVTSource(mockMap, { url: '', vectorLayers: [{ id: 'roads' }] });
+
+    expect(mvtSource.getVectorLayers()).toEqual([{ id: 'roads' }]);
+  });
+
+  test('should fetch an overzoomed parent tile once for all its children', () => {
+    let signal: AbortSignal | undefined;
+    const tileLoader = jest.fn((_coord, requestSignal: AbortSignal) => {
+      signal = requestSignal;
+      return new Promise<ArrayBuffer>(() => {});
+    });
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, sourceMaxZoom: 2 });
+    const first = mvtSource.getTile({ x: 4, y: 4 } as google.maps.Point, 3, document);
+    const second = mvtSource.getTile({ x: 5, y: 4 } as google.maps.Point, 3, document);
+
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect(tileLoader).toHaveBeenCalledWith({ z: 2, x: 2, y: 2 }, expect.any(AbortSignal), {});
+
+    // The shared request survives until the last child is released
+    mvtSource.releaseTile(first);
+    expect(signal?.aborted).toBe(false);
+    mvtSource.releaseTile(second);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('should render the nearest available ancestor of tiles missing from the manifest', async () => {
+    const tileLoader = jest.fn(() => new Promise<ArrayBuffer>(() => {}));
+    const manifest = { '12': { '2047': [[1362, 1362]] as [number, number][] } };
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, manifestFallback: true });
+    await mvtSource.setTileAvailabilityManifest(manifest);
+    const tileContext = mvtSource.drawTile({ x: 8190, y: 5449 } as google.maps.Point, 14, document);
+    mvtSource.drawTile({ x: 0, y: 0 } as google.maps.Point, 14, document);
+
+    expect(tileContext.parentId).toBe('12:2047:1362');
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect(tileLoader).toHaveBeenCalledWith({ z: 12, x: 2047, y: 1362 }, expect.any(AbortSignal), {});
+  });
+
+  test('should not fall back to ancestors unless enabled', async () => {
+    const tileLoader = jest.fn(() => new Promise<ArrayBuffer>(() => {}));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader });
+    await mvtSource.setTileAvailabilityManifest({ '12': { '2047': [[1362, 1362]] } });
+    mvtSource.drawTile({ x: 8190, y: 5449 } as google.maps.Point, 14, document);
+
+    expect(tileLoader).not.toHaveBeenCalled();
+  });
+});
+
+describe('MVTSource Tile Retries', () => {
+  let mvtSource: MVTSource;
+
+  afterEach(() => {
+    mvtSource?.dispose();
+  });
+
+  test('should retry server errors before reporting the failure', async () => {
+    const onTileError = jest.fn();
+    const tileLoader = jest.fn(() => Promise.reject(new TileLoadError('Server error', 503)));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, onTileError, maxTileRetries: 2, tileRetryDelay: 1 });
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(50);
+
+    expect(tileLoader).toHaveBeenCalledTimes(3);
+    expect(onTileError).toHaveBeenCalledTimes(1);
+    expect(onTileError).toHaveBeenCalledWith({ z: 2, x: 1, y: 1 }, 503, expect.any(TileLoadError));
+  });
+
+  test('should not retry client errors', async () => {
+    const onTileError = jest.fn();
+    const tileLoader = jest.fn(() => Promise.reject(new TileLoadError('Not found', 404)));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, onTileError, tileRetryDelay: 1 });
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect(onTileError).toHaveBeenCalledWith({ z: 2, x: 1, y: 1 }, 404, expect.any(TileLoadError));
+  });
+
+  test('should request failed visible tiles again on retryFailedTiles', async () => {
+    const tileLoader = jest.fn(() => Promise.reject(new TileLoadError('Offline', 0)));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, maxTileRetries: 0 });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+
+    mvtSource.retryFailedTiles();
+    await wait(10);
+
+    expect(tileLoader).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('MVTSource Headers Provider', () => {
+  let mvtSource: MVTSource;
+
+  afterEach(() => {
+    mvtSource?.dispose();
+  });
+
+  test('should merge provided headers into every tile request', async () => {
+    const tileLoader = jest.fn(() => Promise.resolve(new ArrayBuffer(0)));
+    const headersProvider = jest.fn(() => Promise.resolve({ Authorization: 'Bearer token-1' }));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, headersProvider, xhrHeaders: { 'X-App': 'demo' } });
+    jest.spyOn(mvtSource as any, '_tileResponseOk').mockImplementation(() => {});
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(headersProvider).toHaveBeenCalledWith({ forceRefresh: false });
+    expect(tileLoader).toHaveBeenCalledWith({ z: 2, x: 1, y: 1 }, expect.any(AbortSignal), {
+      'X-App': 'demo',
+      Authorization: 'Bearer token-1',
+    });
+  });
+
+  test('should refresh headers once and retry tiles rejected with 401', async () => {
+    let token = 'expired';
+    const onTileError = jest.fn();
+    const headersProvider = jest.fn(({ forceRefresh }) => {
+      if (forceRefresh) {
+        token = 'fresh';
+      }
+      return { Authorization: `Bearer ${token}` };
+    });
+    const tileLoader = jest.fn((_coord, _signal, headers: Record<string, string>) =>
+      headers.Authorization === 'Bearer fresh'
+        ? Promise.resolve(new ArrayBuffer(0))
+        : Promise.reject(new TileLoadError('Unauthorized', 401)),
+    );
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, headersProvider, onTileError });
+    jest.spyOn(mvtSource as any, '_tileResponseOk').mockImplementation(() => {});
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    mvtSource.drawTile({ x: 2, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(headersProvider.mock.calls.filter(([options]) => options.forceRefresh)).toHaveLength(1);
+    expect(tileLoader).toHaveBeenCalledTimes(4);
+    expect(onTileError).not.toHaveBeenCalled();
+  });
+
+  test('should report tiles still rejected after refreshing headers', async () => {
+    const onTileError = jest.fn();
+    const headersProvider = jest.fn(() => ({ Authorization: 'Bearer revoked' }));
+    const tileLoader = jest.fn(() => Promise.reject(new TileLoadError('Unauthorized', 401)));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, headersProvider, onTileError, tileRetryDelay: 1 });
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(tileLoader).toHaveBeenCalledTimes(2);
+    expect(onTileError).toHaveBeenCalledWith({ z: 2, x: 1, y: 1 }, 401, expect.any(TileLoadError));
+  });
+});
+
+describe('MVTSource Tile Refresh', () => {
+  let mvtSource: MVTSource;
+  const map = { ...mockMap, getZoom: (): number => 2 };
+  const getIDForLayerFeature = (feature: VectorTileFeature): number => feature.id;
+  const createTile = (ids: number[]): unknown => ({
+    layers: {
+      vehicles: {
+        length: ids.length,
+        feature: (i: number): Record<string, unknown> => ({
+          type: 1,
+          id: ids[i],
+          extent: 4096,
+          properties: { id: ids[i] },
+          loadGeometry: (): { x: number; y: number }[][] => [[{ x: 100 * (i + 1), y: 100 }]],
+          bbox: (): number[] => [100 * (i + 1), 100, 100 * (i + 1), 100],
+        }),
+      },
+    },
+  });
+
+  afterEach(() => {
+    mvtSource?.dispose();
+    (VectorTile as unknown as jest.Mock).mockReset();
+  });
+
+  test('should diff features of refreshed tiles and keep selection', async () => {
+    const tileLoader = jest.fn(() => Promise.resolve(new ArrayBuffer(0)));
+    (VectorTile as unknown as jest.Mock)
+      .mockImplementationOnce(() => createTile([1, 2]))
+      .mockImplementationOnce(() => createTile([1, 3]));
+
+    mvtSource = new MVTSource(map, { url: '', tileLoader, getIDForLayerFeature });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+    mvtSource.setSelectedFeatures([1, 2]);
+    const feature = mvtSource.getFeature(1);
+
+    mvtSource.refreshTiles();
+    await wait(10);
+
+    expect(tileLoader).toHaveBeenCalledTimes(2);
+    expect(mvtSource.getFeature(1)).toBe(feature);
+    expect(mvtSource.getFeature(2)).toBeUndefined();
+    expect(mvtSource.getFeature(3)).toBeDefined();
+    expect(mvtSource.isFeatureSelected(1)).toBe(true);
+  });
+
+  test('should refresh visible tiles on refreshInterval', async () => {
+    const tileLoader = jest.fn(() => Promise.resolve(new ArrayBuffer(0)));
+    (VectorTile as unknown as jest.Mock).mockImplementation(() => createTile([1]));
+
+    mvtSource = new MVTSource(map, { url: '', tileLoader, getIDForLayerFeature, refreshInterval: 20 });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(50);
+
+    expect(tileLoader.mock.calls.length).toBeGreaterThanOrEqual(2);
+
+    mvtSource.dispose();
+    const calls = tileLoader.mock.calls.length;
+    await wait(50);
+
+    expect(tileLoader).toHaveBeenCalledTimes(calls);
+  });
+});
+
+describe('MVTSource Persistent Cache', () => {
+  let mvtSource: MVTSource;
+
+  afterEach(() => {
+    mvtSource?.dispose();
+    jest.restoreAllMocks();
+  });
+
+  test('should name the cache after the URL template or PMTiles archive', async () => {
+    const clear = jest.spyOn(PersistentTileCache.prototype, 'clear').mockResolvedValue();
+
+    mvtSource = new MVTSource(mockMap, { url: 'https://tiles.com/{z}/{x}/{y}.pbf', persistentCache: true });
+    await mvtSource.clearPersistentCache();
+    mvtSource.dispose();
+    mvtSource = new MVTSource(mockMap, { url: '', pmtiles: 'https://tiles.com/roads.pmtiles', persistentCache: true });
+    await mvtSource.clearPersistentCache();
+
+    expect(clear.mock.calls).toEqual([['https://tiles.com/{z}/{x}/{y}.pbf'], ['https://tiles.com/roads.pmtiles']]);
+  });
+
+  test('should require a namespace for sources without a URL', () => {
+    const url = (coord: { z: number; x: number; y: number }): string =>
+      `https://tiles.com/${coord.z}/${coord.x}/${coord.y}`;
+
+    expect(() => new MVTSource(mockMap, { url, persistentCache: true })).toThrow(
+      'persistentCache.namespace is required',
+    );
+    expect(() => new MVTSource(mockMap, { url: '', tileLoader: jest.fn(), persistentCache: { ttl: 1000 } })).toThrow(
+      'persistentCache.namespace is required',
+    );
+
+    mvtSource = new MVTSource(mockMap, { url, persistentCache: { namespace: 'roads' } });
+  });
+
+  test('should revalidate fresh cached tiles on refresh', async () => {
+    const cached = {
+      key: 'roads|2/1/1',
+      namespace: 'roads',
+      data: new ArrayBuffer(4),
+      size: 4,
+      etag: '"v1"',
+      storedAt: Date.now(),
+      accessedAt: Date.now(),
+    };
+    jest.spyOn(PersistentTileCache.prototype, 'get').mockResolvedValue(cached);
+    jest.spyOn(PersistentTileCache.prototype, 'put').mockResolvedValue();
+    (VectorTile as unknown as jest.Mock).mockImplementation(() => ({ layers: {} }));
+    const tileLoader = jest.fn(() => Promise.resolve({ data: new ArrayBuffer(0), notModified: true }));
+
+    mvtSource = new MVTSource(
+      { ...mockMap, getZoom: (): number => 2 },
+      { url: '', tileLoader, persistentCache: { namespace: 'roads' }, refreshInterval: 50 },
+    );
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+
+    // Served from the cache within the TTL
+    expect(tileLoader).not.toHaveBeenCalled();
+
+    mvtSource.refreshTiles();
+    await wait(10);
+
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect(tileLoader).toHaveBeenCalledWith({ z: 2, x: 1, y: 1 }, expect.anything(), { 'If-None-Match': '"v1"' });
+
+    await wait(60);
+
+    // The refresh timer revalidates too
+    expect(tileLoader.mock.calls.length).toBeGreaterThanOrEqual(2);
+    tileLoader.mock.calls.forEach((call: unknown[]) => {
+      expect(call[2]).toEqual({ 'If-None-Match': '"v1"' });
+    });
+  });
+});
+
+describe('MVTSource Feature State', () => {
+  let mvtSource: MVTSource;
+  const map = { ...mockMap, getZoom: (): number => 2 };
+  const getIDForLayerFeature = (feature: VectorTileFeature): number => feature.id;
+  const createFeature = (id: number): VectorTileFeature =>
+    ({
+      type: 1,
+      id,
+      extent: 4096,
+      properties: {},
+      loadGeometry: (): { x: number; y: number }[][] => [[{ x: 100, y: 100 }]],
+      bbox: (): number[] => [100, 100, 100, 100],
+    }) as unknown as VectorTileFeature;
+  const style = jest.fn((_feature: VectorTileFeature, { featureState }: FeatureStyleContext) => ({
+    fillStyle: featureState.visited ? 'gray' : 'blue',
+    radius: 4,
+  }));
+
+  let vectorTileCalls: number;
+
+  beforeEach(() => {
+    style.mockClear();
+    vectorTileCalls = 1;
+    // One feature per tile, numbered in load order
+    (VectorTile as unknown as jest.Mock).mockImplementation(() => {
+      const id = vectorTileCalls++;
+      return { layers: { pois: { length: 1, feature: (): VectorTileFeature => createFeature(id) } } };
+    });
+  });
+
+  afterEach(() => {
+    mvtSource?.dispose();
+    (VectorTile as unknown as jest.Mock).mockReset();
+  });
+
+  test('should store, merge and remove feature state', () => {
+    mvtSource = new MVTSource(map, { url: '', style });
+
+    mvtSource.setFeatureState(1, { visited: true });
+    mvtSource.setFeatureState(1, { alertLevel: 3 });
+    expect(mvtSource.getFeatureState(1)).toEqual({ visited: true, alertLevel: 3 });
+
+    mvtSource.removeFeatureState(1);
+    expect(mvtSource.getFeatureState(1)).toEqual({});
+  });
+
+  test('should pass feature state to the style function without stale cache hits', () => {
+    mvtSource = new MVTSource(map, { url: '', style });
+    const feature = createFeature(1);
+
+    expect(mvtSource.getStyleForFeature(feature, 1).fillStyle).toBe('blue');
+
+    mvtSource.setFeatureState(1, { visited: true });
+
+    expect(mvtSource.getStyleForFeature(feature, 1).fillStyle).toBe('gray');
+    expect(style).toHaveBeenLastCalledWith(feature, expect.objectContaining({ featureState: { visited: true } }));
+  });
+
+  test('should pass zoom, layer and interaction state to the style function', () => {
+    mvtSource = new MVTSource(map, { url: '', style });
+    const feature = createFeature(1);
+    mvtSource.setSelectedFeatures([1]);
+
+    mvtSource.getStyleForFeature(feature, 1, 'pois', 5);
+    mvtSource.getStyleForFeature(feature, 1, 'pois', 5);
+    mvtSource.getStyleForFeature(feature, 1, 'pois', 6);
+
+    expect(style).toHaveBeenCalledTimes(2);
+    expect(style).toHaveBeenNthCalledWith(1, feature, {
+      feature,
+      layerName: 'pois',
+      zoom: 5,
+      selected: true,
+      hovered: false,
+      featureState: {},
+    });
+    expect(style).toHaveBeenNthCalledWith(2, feature, expect.objectContaining({ zoom: 6 }));
+  });
+
+  test('should only redraw tiles holding the feature', async () => {
+    const tileLoader = jest.fn(() => Promise.resolve(new ArrayBuffer(0)));
+    mvtSource = new MVTSource(map, { url: '', tileLoader, style, getIDForLayerFeature });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    mvtSource.getTile({ x: 2, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+    const drawVectorTile = jest.spyOn(mvtSource as any, '_drawVectorTile');
+
+    mvtSource.setFeatureState(1, { visited: true });
+    await wait(50);
+
+    expect(drawVectorTile).toHaveBeenCalledTimes(1);
+    expect(drawVectorTile).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ id: '2:1:1' }));
+  });
+});
+
+describe('MVTSource Per-Layer Options', () => {
+  let mvtSource: MVTSource;
+  const map = { ...mockMap, getZoom: (): number => 2 };
+  const getIDForLayerFeature = (feature: VectorTileFeature): number => feature.id;
+  const tileLoader = (): Promise<ArrayBuffer> => Promise.resolve(new ArrayBuffer(0));
+  const createFeature = (id: number, type: number, properties: Record<string, unknown> = {}): VectorTileFeature =>
+    ({
+      type,
+      id,
+      extent: 4096,
+      properties,
+      loadGeometry: (): { x: number; y: number }[][] => [
+        [
+          { x: 100, y: 100 },
+          { x: 200, y: 200 },
+        ],
+      ],
+      bbox: (): number[] => [100, 100, 200, 200],
+    }) as unknown as VectorTileFeature;
+  const createLayer = (features: VectorTileFeature[]): object => ({
+    length: features.length,
+    feature: (i: number): VectorTileFeature => features[i],
+  });
+
+  beforeEach(() => {
+    (VectorTile as unknown as jest.Mock).mockImplementation(() => ({
+      layers: {
+        roads: createLayer([createFeature(1, 2, { class: 'primary' }), createFeature(2, 2, { class: 'path' })]),
+        pois: createLayer([createFeature(3, 1)]),
+      },
+    }));
+  });
+
+  afterEach(() => {
+    mvtSource?.dispose();
+    (VectorTile as unknown as jest.Mock).mockReset();
+  });
+
+  test('should apply layer styles and filters, falling back to the source ones', async () => {
+    mvtSource = new MVTSource(map, {
+      url: '',
+      tileLoader,
+      getIDForLayerFeature,
+      style: { fillStyle: 'blue', radius: 4 },
+      filter: (): boolean => true,
+      layers: {
+        roads: {
+          style: { strokeStyle: 'red', lineWidth: 2 },
+          filter: (feature): boolean => feature.properties.class === 'primary',
+        },
+      },
+    });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+
+    expect(mvtSource.getFeature(1)).toBeDefined();
+    expect(mvtSource.getFeature(2)).toBeUndefined();
+    expect(mvtSource.getFeature(3)).toBeDefined();
+    expect(mvtSource.getStyleForFeature(createFeature(1, 2), 1, 'roads')).toEqual({ strokeStyle: 'red', lineWidth: 2 });
+    expect(mvtSource.getStyleForFeature(createFeature(3, 1), 3, 'pois')).toEqual({ fillStyle: 'blue', radius: 4 });
+  });
+
+  test('should skip layers outside their zoom range', async () => {
+    mvtSource = new MVTSource(map, {
+      url: '',
+      tileLoader,
+      getIDForLayerFeature,
+      layers: { roads: { maxZoom: 1 }, pois: { minZoom: 2 } },
+    });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+
+    expect(mvtSource.mVTLayers.roads).toBeUndefined();
+    expect(mvtSource.getFeature(3)).toBeDefined();
+  });
+
+  test('should update the style and filter of one layer', async () => {
+    mvtSource = new MVTSource(map, { url: '', tileLoader, getIDForLayerFeature, style: { strokeStyle: 'blue' } });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+
+    mvtSource.setLayerStyle('roads', { strokeStyle: 'green' });
+    expect(mvtSource.getStyleForFeature(createFeature(1, 2), 1, 'roads')).toEqual({ strokeStyle: 'green' });
+    expect(mvtSource.getStyleForFeature(createFeature(3, 1), 3, 'pois')).toEqual({ strokeStyle: 'blue' });
+
+    mvtSource.setLayerStyle('roads', undefined);
+    expect(mvtSource.getStyleForFeature(createFeature(1, 2), 1, 'roads')).toEqual({ strokeStyle: 'blue' });
+
+    mvtSource.setLayerFilter('roads', (feature): boolean => feature.properties.class === 'path');
+    await wait(50);
+
+    expect(mvtSource.getFeature(3)).toBeDefined();
+    expect(mvtSource.getFeature(2)).toBeDefined();
+    expect((mvtSource.mVTLayers.roads as any)._canvasAndMVTFeatures['2:1:1'].features).toHaveLength(1);
+  });
+
+  test('should label features with a label style', async () => {
+    const drawLabels = jest.spyOn(LabelRenderer.prototype, 'drawLabels');
+    mvtSource = new MVTSource(map, {
+      url: '',
+      tileLoader,
+      getIDForLayerFeature,
+      layers: { roads: { style: { strokeStyle: 'red', label: { textField: 'class' } } } },
+    });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+
+    const candidates = drawLabels.mock.calls[drawLabels.mock.calls.length - 1][1];
+    expect(candidates.map(({ key, properties }) => [key, properties])).toEqual([
+      ['roads:1', { class: 'primary' }],
+      ['roads:2', { class: 'path' }],
+    ]);
+    drawLabels.mockRestore();
+  });
+
+  test('should not draw label halos with the line dash of the features', async () => {
+    (VectorTile as unknown as jest.Mock).mockImplementation(() => ({
+      layers: {
+        pois: createLayer([
+          {
+            ...createFeature(3, 1, { name: 'Cafe' }),
+            loadGeometry: (): { x: number; y: number }[][] => [[{ x: 2048, y: 2048 }]],
+          } as VectorTileFeature,
+        ]),
+        roads: createLayer([createFeature(1, 2, { class: 'primary' })]),
+      },
+    }));
+    mvtSource = new MVTSource(map, {
+      url: '',
+      tileLoader,
+      getIDForLayerFeature,
+      layers: {
+        pois: {
+          style: { fillStyle: 'red', radius: 4, label: { textField: 'name', haloColor: 'white', haloWidth: 1 } },
+        },
+        roads: { style: { strokeStyle: 'red', lineWidth: 2, lineDash: [4, 2] } },
+      },
+    });
+    const canvas = mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document) as HTMLCanvasElement;
+    // One context for the whole tile, recording the line dash of each halo
+    const context2d = HTMLCanvasElement.prototype.getContext.call(canvas, '2d') as CanvasRenderingContext2D;
+    let lineDash: number[] = [];
+    const haloDashes: number[][] = [];
+    context2d.setLineDash = (segments: number[]): void => {
+      lineDash = segments;
+    };
+    context2d.strokeText = (): void => {
+      haloDashes.push(lineDash);
+    };
+    canvas.getContext = jest.fn().mockReturnValue(context2d);
+    await wait(10);
+
+    expect(haloDashes.length).toBeGreaterThan(0);
+    haloDashes.forEach((segments) => expect(segments).toEqual([]));
+  });
+});
+
+describe('MVTSource Pixel Ratio', () => {
+  let mvtSource: MVTSource;
+  const originalMatchMedia = window.matchMedia;
+  const originalPixelRatio = window.devicePixelRatio;
+  const setDevicePixelRatio = (pixelRatio: number): void => {
+    Object.defineProperty(window, 'devicePixelRatio', { value: pixelRatio, configurable: true });
+  };
+
+  afterEach(() => {
+    mvtSource?.dispose();
+    window.matchMedia = originalMatchMedia;
+    setDevicePixelRatio(originalPixelRatio);
+  });
+
+  test('should back tile canvases with device pixels', () => {
+    mvtSource = new MVTSource(mockMap, { url: '', pixelRatio: 2 });
+
+    const canvas = mvtSource.getTile({ x: 0, y: 0 } as google.maps.Point, 1, document) as HTMLCanvasElement;
+
+    expect(canvas.width).toBe(512);
+    expect(canvas.height).toBe(512);
+    expect(canvas.style.width).toBe('256px');
+    expect(canvas.style.height).toBe('256px');
+  });
+
+  test('should resize visible canvases when the device pixel ratio changes', () => {
+    const listeners: (() => void)[] = [];
+    const queries: string[] = [];
+    window.matchMedia = jest.fn((query: string) => {
+      queries.push(query);
+      return {
+        addEventListener: (_type: string, listener: () => void): number => listeners.push(listener),
+        removeEventListener: jest.fn(),
+      };
+    }) as any;
+    setDevicePixelRatio(1);
+    mvtSource = new MVTSource(mockMap, { url: '' });
+    const canvas = mvtSource.getTile({ x: 0, y: 0 } as google.maps.Point, 1, document) as HTMLCanvasElement;
+    expect(canvas.width).toBe(256);
+
+    setDevicePixelRatio(1.5);
+    listeners[0]();
+
+    expect(mvtSource.getPixelRatio()).toBe(1.5);
+    expect(canvas.width).toBe(384);
+    expect(queries).toEqual(['(resolution: 1dppx)', '(resolution: 1.5dppx)']);
+  });
+
+  test('should not reuse cached canvases drawn at another pixel ratio', async () => {
+    const tileLoader = (): Promise<ArrayBuffer> => Promise.resolve(new ArrayBuffer(0));
+    (VectorTile as unknown as jest.Mock).mockImplementation(() => ({
+      layers: {
+        stops: {
+          length: 1,
+          feature: (): Record<string, unknown> => ({
+            type: 1,
+            id: 1,
+            extent: 4096,
+            properties: {},
+            loadGeometry: (): { x: number; y: number }[][] => [[{ x: 100, y: 100 }]],
+            bbox: (): number[] => [100, 100, 100, 100],
+          }),
+        },
+      },
+    }));
+    mvtSource = new MVTSource(
+      { ...mockMap, getZoom: (): number => 1 },
+      {
+        url: '',
+        tileLoader,
+        cache: true,
+        pixelRatio: 1,
+        getIDForLayerFeature: (feature: VectorTileFeature): number => feature.id,
+      },
+    );
+    const tile = mvtSource.getTile({ x: 0, y: 0 } as google.maps.Point, 1, document) as HTMLCanvasElement;
+    await wait(10);
+    mvtSource.releaseTile(tile);
+    expect(mvtSource.getTile({ x: 0, y: 0 } as google.maps.Point, 1, document)).toBe(tile);
+    mvtSource.releaseTile(tile);
+
+    mvtSource.setPixelRatio(2);
+
+    // The cached tile is freed rather than kept at the old size
+    expect(mvtSource.getFeature(1)).toBeUndefined();
+    const canvas = mvtSource.getTile({ x: 0, y: 0 } as google.maps.Point, 1, document) as HTMLCanvasElement;
+
+    expect(canvas).not.toBe(tile);
+    expect(canvas.width).toBe(512);
+  });
+
+  test('should request tiles at the source pixel ratio', async () => {
+    const open = jest.spyOn(XMLHttpRequest.prototype, 'open').mockImplementation(() => undefined);
+    const send = jest.spyOn(XMLHttpRequest.prototype, 'send').mockImplementation(() => undefined);
+    setDevicePixelRatio(2);
+
+    mvtSource = new MVTSource(
+      { ...mockMap, getZoom: (): number => 2 },
+      { url: 'https://tiles.com/{z}/{x}/{y}{r}.pbf', pixelRatio: 1 },
+    );
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(10);
+    const requests = open.mock.calls.map(([, url]) => url);
+    open.mockRestore();
+    send.mockRestore();
+
+    expect(requests).toEqual(['https://tiles.com/2/1/1.pbf']);
+  });
+});
+
+describe('MVTSource Tile Decoding', () => {
+  let mvtSource: MVTSource;
+  const originalDecompressionStream = (global as any).DecompressionStream;
+  const toArrayBuffer = (buffer: Buffer): ArrayBuffer =>
+    buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+
+  beforeEach(() => {
+    (global as any).DecompressionStream = NodeDecompressionStream;
+    (Protobuf as unknown as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    mvtSource?.dispose();
+    (global as any).DecompressionStream = originalDecompressionStream;
+  });
+
+  test('should decompress gzipped tiles before decoding', async () => {
+    const tileLoader = jest.fn(() => Promise.resolve(toArrayBuffer(gzipSync(Buffer.from([0x1a, 0x00])))));
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader });
+    // Decompression runs outside of the faked timers
+    const decoded = new Promise((resolve) => {
+      jest.spyOn(mvtSource as any, '_tileResponseOk').mockImplementation(resolve);
+    });
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(0);
+    await decoded;
+
+    expect(Protobuf).toHaveBeenCalledTimes(1);
+    expect(Array.from((Protobuf as unknown as jest.Mock).mock.calls[0][0])).toEqual([0x1a, 0x00]);
+  });
+
+  test('should report tiles that are neither PBF nor gzip without retrying', async () => {
+    const onTileError = jest.fn();
+    const tileLoader = jest.fn(() => Promise.resolve(toArrayBuffer(Buffer.from('<html>Not found</html>'))));
+    (VectorTile as unknown as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('Unimplemented type: 4');
+    });
+
+    mvtSource = new MVTSource(mockMap, { url: '', tileLoader, onTileError, tileRetryDelay: 1 });
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(tileLoader).toHaveBeenCalledTimes(1);
+    expect(onTileError).toHaveBeenCalledWith({ z: 2, x: 1, y: 1 }, 0, expect.any(TileDecodeError));
+  });
+});
+
+describe('MVTSource Worker Decoding', () => {
+  let mvtSource: MVTSource;
+  const createWorker = (): Worker =>
+    ({
+      postMessage: jest.fn(),
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      terminate: jest.fn(),
+    }) as unknown as Worker;
+
+  afterEach(() => {
+    mvtSource?.dispose();
+  });
+
+  test('should fetch and decode tiles in the worker', async () => {
+    const worker = createWorker();
+
+    mvtSource = new MVTSource(mockMap, {
+      url: 'https://tiles.com/{z}/{x}/{y}.pbf',
+      decodeWorker: (): Worker => worker,
+    });
+    mvtSource.drawTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(worker.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'load', url: 'https://tiles.com/2/1/1.pbf', tileSize: 256 }),
+      [],
+    );
+
+    mvtSource.dispose();
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+
+  test('should decode tiles from custom loaders in a shared worker', async () => {
+    const worker = createWorker();
+    const detached = new Set<ArrayBuffer>();
+    // Transferred buffers are detached, and decode to an empty tile
+    (worker.postMessage as jest.Mock).mockImplementation((message, transfer: ArrayBuffer[]) => {
+      const empty = detached.has(message.data);
+      transfer.forEach((buffer) => detached.add(buffer));
+      const layers = empty
+        ? []
+        : [
+            {
+              name: 'roads',
+              extent: 256,
+              types: new Uint8Array([1]),
+              ids: new Float64Array([7]),
+              properties: [{}],
+              featureOffsets: new Uint32Array([0, 1]),
+              ringOffsets: new Uint32Array([0, 1]),
+              coordinates: new Float32Array([128, 128]),
+            },
+          ];
+      const listeners = (worker.addEventListener as jest.Mock).mock.calls.map(([, listener]) => listener);
+      setTimeout(() => listeners.forEach((listener) => listener({ data: { id: message.id, layers } })), 0);
+    });
+    const buffer = new ArrayBuffer(2);
+    const tileLoader = jest.fn(() => Promise.resolve(buffer));
+
+    const map = { ...mockMap, getZoom: (): number => 2 };
+    const getIDForLayerFeature = (feature: VectorTileFeature): number => feature.id;
+
+    mvtSource = new MVTSource(map, { url: '', tileLoader, getIDForLayerFeature, decodeWorker: worker });
+    const otherSource = new MVTSource(map, { url: '', tileLoader, getIDForLayerFeature, decodeWorker: worker });
+    mvtSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+    otherSource.getTile({ x: 1, y: 1 } as google.maps.Point, 2, document);
+    await wait(20);
+
+    expect(worker.postMessage).toHaveBeenCalledTimes(2);
+    expect(worker.postMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'decode', tileSize: 256 }), [
+      expect.any(ArrayBuffer),
+    ]);
+    expect(detached.has(buffer)).toBe(false);
+    expect(mvtSource.getFeature(7)).toBeDefined();
+    expect(otherSource.getFeature(7)).toBeDefined();
+
+    otherSource.dispose();
+    mvtSource.dispose();
+    expect(worker.terminate).not.toHaveBeenCalled();
+  });
+});
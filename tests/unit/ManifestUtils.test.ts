@@ -0,0 +1,88 @@
+import { ManifestUtils } from '../../src/ManifestUtils';
+import { TileAvailabilityIndex } from '../../src/TileAvailabilityIndex';
+import { TileCoord } from '../../src/types';
+
+const toTiles = (z: number, x0: number, x1: number, y0: number, y1: number): TileCoord[] => {
+  const tiles: TileCoord[] = [];
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+};
+
+describe('ManifestUtils', () => {
+  describe('validateManifest', () => {
+    test('should accept all manifest forms', () => {
+      expect(ManifestUtils.validateManifest({ '10': { '512': [[256, 300]], '513-520': [[0, 1]] } })).toBe(true);
+      expect(ManifestUtils.validateManifest({ type: 'bbox', bounds: [-10, 35, 5, 52], maxZoom: 14 })).toBe(true);
+      expect(ManifestUtils.validateManifest({ type: 'bbox', bounds: [[-10, 35, 5, 52]] })).toBe(true);
+      expect(
+        ManifestUtils.validateManifest({ type: 'extent', zooms: { '6': { minX: 0, maxX: 1, minY: 0, maxY: 1 } } }),
+      ).toBe(true);
+    });
+
+    test('should reject malformed manifests', () => {
+      expect(ManifestUtils.validateManifest(null)).toBe(false);
+      expect(ManifestUtils.validateManifest('10/512/300')).toBe(false);
+      expect(ManifestUtils.validateManifest({ type: 'bbox' })).toBe(false);
+      expect(ManifestUtils.validateManifest({ '10': { abc: [[0, 1]] } })).toBe(false);
+      expect(ManifestUtils.validateManifest({ '10': { '5': [[0]] } })).toBe(false);
+      expect(ManifestUtils.validateManifest({ type: 'bbox', bounds: [-10, 35, 5] })).toBe(false);
+      expect(ManifestUtils.validateManifest({ type: 'extent', zooms: { '6': { minX: 0 } } })).toBe(false);
+    });
+  });
+
+  describe('fromTileCoords', () => {
+    test('should collapse complete quads into column ranges', () => {
+      const manifest = ManifestUtils.fromTileCoords(toTiles(5, 0, 3, 0, 3));
+
+      expect(manifest).toEqual({ '5': { '0-3': [[0, 3]] } });
+    });
+
+    test('should keep lookups identical to the tile list', () => {
+      const tiles = [...toTiles(6, 3, 9, 2, 5), { z: 6, x: 20, y: 1 }, { z: 7, x: 1, y: 1 }];
+      const manifest = ManifestUtils.fromTileCoords(tiles);
+      const index = new TileAvailabilityIndex(manifest);
+
+      expect(ManifestUtils.validateManifest(manifest)).toBe(true);
+      for (let x = 0; x < 24; x++) {
+        for (let y = 0; y < 8; y++) {
+          const listed = tiles.some((tile) => tile.z === 6 && tile.x === x && tile.y === y);
+          expect(index.isAvailable(6, x, y)).toBe(listed);
+        }
+      }
+      expect(index.isAvailable(7, 1, 1)).toBe(true);
+      expect(Object.keys(manifest['6']).length).toBeLessThan(7);
+    });
+  });
+
+  describe('fromPolygon', () => {
+    test('should list the tiles touching the polygon at each zoom', () => {
+      // Roughly the Iberian peninsula
+      const coverage: GeoJSON.Polygon = {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-9, 36],
+            [3, 36],
+            [3, 43],
+            [-9, 43],
+            [-9, 36],
+          ],
+        ],
+      };
+      const manifest = ManifestUtils.fromPolygon(coverage, 2, 6);
+      const index = new TileAvailabilityIndex(manifest);
+
+      expect(Object.keys(manifest)).toEqual(['2', '3', '4', '5', '6']);
+      // Madrid
+      expect(index.isAvailable(6, 31, 24)).toBe(true);
+      // Paris
+      expect(index.isAvailable(6, 32, 22)).toBe(false);
+      expect(index.isAvailable(2, 1, 1)).toBe(true);
+      expect(index.isAvailable(2, 3, 3)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { VectorTileFeature } from '@mapbox/vector-tile';
+import { convertMapLibreStyle, loadMapLibreStyle } from '../../src/MapLibreStyle';
+import {
+  FeatureStyleContext,
+  FeatureStyleFunction,
+  FilterFunction,
+  MapLibreStyle,
+  MapLibreStyleLayer,
+} from '../../src/types';
+import { createMockTileContext } from '../utils/mockData';
+
+const createFeature = (properties: Record<string, unknown>, type = 3): VectorTileFeature =>
+  ({ type, properties }) as unknown as VectorTileFeature;
+
+const createStyle = (layers: MapLibreStyleLayer[]): MapLibreStyle => ({
+  version: 8,
+  sources: {
+    basemap: { type: 'vector', tiles: ['https://tiles.com/{z}/{x}/{y}.pbf'] },
+  },
+  layers,
+});
+
+const styleFor = (
+  style: MapLibreStyle,
+  layerName: string,
+  feature: VectorTileFeature,
+  zoom = 10,
+): Record<string, unknown> => {
+  const context: FeatureStyleContext = {
+    feature,
+    layerName,
+    zoom,
+    selected: false,
+    hovered: false,
+    featureState: {},
+  };
+  const layerStyle = convertMapLibreStyle(style).layers[layerName].style as FeatureStyleFunction;
+  return layerStyle(feature, context) as Record<string, unknown>;
+};
+
+describe('MapLibreStyle', () => {
+  describe('convertMapLibreStyle', () => {
+    test('should convert fill, line and circle paint properties', () => {
+      const style = createStyle([
+        {
+          id: 'water',
+          type: 'fill',
+          source: 'basemap',
+          'source-layer': 'water',
+          paint: { 'fill-color': '#0000ff', 'fill-outline-color': '#000080', 'fill-opacity': 0.5 },
+        },
+        {
+          id: 'roads',
+          type: 'line',
+          source: 'basemap',
+          'source-layer': 'roads',
+          paint: { 'line-color': ['match', ['get', 'class'], 'motorway', '#ff0000', '#999999'], 'line-width': 3 },
+        },
+        {
+          id: 'pois',
+          type: 'circle',
+          source: 'basemap',
+          'source-layer': 'pois',
+          paint: { 'circle-radius': 4, 'circle-stroke-width': 1 },
+        },
+      ]);
+
+      const conversion = convertMapLibreStyle(style);
+
+      expect(conversion.sourceId).toBe('basemap');
+      expect(conversion.visibleLayers).toEqual(['water', 'roads', 'pois']);
+      expect(conversion.warnings).toEqual([]);
+      expect(styleFor(style, 'water', createFeature({}))).toEqual({
+        fillStyle: 'rgba(0, 0, 255, 0.5)',
+        strokeStyle: '#000080',
+      });
+      expect(styleFor(style, 'roads', createFeature({ class: 'motorway' }, 2))).toEqual({
+        strokeStyle: '#ff0000',
+        lineWidth: 3,
+        lineCap: 'butt',
+        lineJoin: 'miter',
+        miterLimit: 2,
+      });
+      expect(styleFor(style, 'pois', createFeature({}, 1))).toEqual({
+        fillStyle: '#000000',
+        strokeStyle: '#000000',
+        radius: 4,
+        lineWidth: 1,
+      });
+    });
+
+    test('should convert legacy zoom functions', () => {
+      const style = createStyle([
+        {
+          id: 'roads',
+          type: 'line',
+          source: 'basemap',
+          'source-layer': 'roads',
+          paint: {
+            'line-width': {
+              base: 1,
+              stops: [
+                [10, 1],
+                [14, 5],
+              ],
+            },
+          },
+        },
+      ]);
+
+      expect(styleFor(style, 'roads', createFeature({}, 2), 12).lineWidth).toBe(3);
+    });
+
+    test('should convert line dashes, caps, joins and offsets', () => {
+      const style = createStyle([
+        {
+          id: 'borders',
+          type: 'line',
+          source: 'basemap',
+          'source-layer': 'borders',
+          layout: { 'line-cap': 'round', 'line-join': ['match', ['get', 'disputed'], 1, 'bevel', 'round'] },
+          paint: { 'line-width': 2, 'line-dasharray': [3, 1], 'line-offset': -4 },
+        },
+      ]);
+
+      expect(convertMapLibreStyle(style).warnings).toEqual([]);
+      expect(styleFor(style, 'borders', createFeature({ disputed: 1 }, 2))).toMatchObject({
+        lineDash: [6, 2],
+        lineCap: 'round',
+        lineJoin: 'bevel',
+        lineOffset: -4,
+      });
+    });
+
+    test('should filter on legacy and expression filters and zoom ranges', () => {
+      const style = createStyle([
+        {
+          id: 'major-roads',
+          type: 'line',
+          source: 'basemap',
+          'source-layer': 'roads',
+          minzoom: 8,
+          filter: ['all', ['==', '$type', 'LineString'], ['in', 'class', 'motorway', 'primary']],
+        },
+        {
+          id: 'parks',
+          type: 'fill',
+          source: 'basemap',
+          'source-layer': 'landuse',
+          maxzoom: 14,
+          filter: ['==', ['get', 'class'], 'park'],
+        },
+      ]);
+      const { layers } = convertMapLibreStyle(style);
+      const roadsFilter = layers.roads.filter as FilterFunction;
+      const landuseFilter = layers.landuse.filter as FilterFunction;
+      const tileContext = createMockTileContext({ zoom: 10 });
+
+      expect(roadsFilter(createFeature({ class: 'primary' }, 2), tileContext, 'roads')).toBe(true);
+      expect(roadsFilter(createFeature({ class: 'path' }, 2), tileContext, 'roads')).toBe(false);
+      expect(landuseFilter(createFeature({ class: 'park' }), tileContext, 'landuse')).toBe(true);
+      expect(landuseFilter(createFeature({ class: 'park' }), { ...tileContext, zoom: 14 }, 'landuse')).toBe(false);
+      expect(layers.roads).toMatchObject({ minZoom: 8 });
+      expect(layers.landuse).toMatchObject({ maxZoom: 13 });
+      expect(layers.buildings).toBeUndefined();
+    });
+
+    test('should style features with the topmost matching layer', () => {
+      const style = createStyle([
+        { id: 'roads', type: 'line', source: 'basemap', 'source-layer': 'roads', paint: { 'line-width': 1 } },
+        {
+          id: 'motorways',
+          type: 'line',
+          source: 'basemap',
+          'source-layer': 'roads',
+          filter: ['==', 'class', 'motorway'],
+          paint: { 'line-width': 4 },
+        },
+      ]);
+
+      expect(styleFor(style, 'roads', createFeature({ class: 'motorway' }, 2)).lineWidth).toBe(4);
+      expect(styleFor(style, 'roads', createFeature({ class: 'path' }, 2)).lineWidth).toBe(1);
+      expect(convertMapLibreStyle(style).warnings).toEqual([
+        'Layers "roads", "motorways" share source layer "roads": features are drawn once, with the topmost matching layer',
+      ]);
+    });
+
+    test('should report unsupported layers and properties as warnings', () => {
+      const style = createStyle([
+        { id: 'background', type: 'background', paint: { 'background-color': '#fff' } },
+        { id: 'labels', type: 'symbol', source: 'basemap', 'source-layer': 'places' },
+        {
+          id: 'roads',
+          type: 'line',
+          source: 'basemap',
+          'source-layer': 'roads',
+          layout: { 'line-round-limit': 1.5 },
+          paint: { 'line-blur': 1, 'line-color': ['mtach', ['get', 'class'], 'a', 'red', 'blue'] },
+        },
+        { id: 'hidden', type: 'fill', source: 'basemap', 'source-layer': 'hidden', layout: { visibility: 'none' } },
+        { id: 'by-id', type: 'fill', source: 'basemap', 'source-layer': 'parcels', filter: ['==', '$id', 1] },
+      ]);
+
+      const { visibleLayers, warnings } = convertMapLibreStyle(style);
+
+      expect(visibleLayers).toEqual(['roads']);
+      expect(warnings).toEqual([
+        'Layer "background": layer type "background" is not supported',
+        'Layer "labels": layer type "symbol" is not supported',
+        'Layer "roads": paint property "line-blur" is not supported',
+        'Layer "roads": line-color: Unknown operator "mtach"',
+        'Layer "roads": layout property "line-round-limit" is not supported',
+        'Layer "by-id": filter: Filtering on $id is not supported',
+      ]);
+    });
+
+    test('should pick the requested vector source', () => {
+      const style: MapLibreStyle = {
+        version: 8,
+        sources: {
+          satellite: { type: 'raster', tiles: ['https://tiles.com/sat/{z}/{x}/{y}.png'] },
+          base: { type: 'vector', url: 'https://tiles.com/base.json' },
+          overlay: { type: 'vector', tiles: ['https://tiles.com/overlay/{z}/{x}/{y}.pbf'] },
+        },
+        layers: [
+          { id: 'base-roads', type: 'line', source: 'base', 'source-layer': 'roads' },
+          { id: 'overlay-zones', type: 'fill', source: 'overlay', 'source-layer': 'zones' },
+        ],
+      };
+
+      expect(convertMapLibreStyle(style).sourceId).toBe('base');
+      const overlay = convertMapLibreStyle(style, 'overlay');
+      expect(overlay.visibleLayers).toEqual(['zones']);
+      expect(overlay.warnings).toEqual(['Layer "base-roads": source "base" is not converted']);
+      expect(() => convertMapLibreStyle(style, 'satellite')).toThrow('Style has no vector source "satellite"');
+    });
+  });
+
+  describe('loadMapLibreStyle', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('should fetch style documents', async () => {
+      const style = createStyle([]);
+      global.fetch = jest.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(style) }) as any;
+
+      await expect(loadMapLibreStyle('https://tiles.com/style.json')).resolves.toEqual(style);
+      await expect(loadMapLibreStyle(style)).resolves.toBe(style);
+    });
+
+    test('should reject failed requests', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }) as any;
+
+      await expect(loadMapLibreStyle('https://tiles.com/missing.json')).rejects.toThrow(
+        'Failed to fetch style: 404 Not Found',
+      );
+    });
+  });
+});
@@ -75,6 +75,39 @@ describe('Mercator', () => {
     });
   });
 
+  describe('Line Offsets', () => {
+    test('should offset lines to the right of their direction', () => {
+      const line = [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+      ];
+
+      const offset = Mercator.offsetLine(line, 2);
+
+      // The corner keeps 2px from both segments
+      expect(offset).toEqual([
+        { x: 0, y: 2 },
+        { x: 8, y: 2 },
+        { x: 8, y: 10 },
+      ]);
+      expect(Mercator.offsetLine(line, -2)[0]).toEqual({ x: 0, y: -2 });
+    });
+
+    test('should cap corners of sharp turns', () => {
+      const line = [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 0, y: 1 },
+      ];
+
+      const corner = Mercator.offsetLine(line, 1)[1];
+
+      expect(Math.sqrt((corner.x - 10) ** 2 + corner.y ** 2)).toBeCloseTo(2);
+    });
+  });
+
   describe('Consistency', () => {
     test('should maintain consistent tile boundaries', () => {
       for (let zoom = 0; zoom <= 10; zoom++) {
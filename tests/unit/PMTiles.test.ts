@@ -0,0 +1,262 @@
+import { gzipSync } from 'zlib';
+import { DecompressionStream as NodeDecompressionStream } from 'stream/web';
+import { PMTilesArchive, createPMTilesTileLoader, zxyToTileId } from '../../src/PMTiles';
+import { PMTilesCompression } from '../../src/types';
+
+interface TestEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+const encodeVarints = (values: number[]): number[] => {
+  const bytes: number[] = [];
+  values.forEach((value) => {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      bytes.push((remaining & 0x7f) | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+    bytes.push(remaining);
+  });
+  return bytes;
+};
+
+const encodeDirectory = (entries: TestEntry[]): Uint8Array => {
+  let lastTileId = 0;
+  const tileIds = entries.map((entry) => {
+    const delta = entry.tileId - lastTileId;
+    lastTileId = entry.tileId;
+    return delta;
+  });
+  return new Uint8Array(
+    encodeVarints([
+      entries.length,
+      ...tileIds,
+      ...entries.map((entry) => entry.runLength),
+      ...entries.map((entry) => entry.length),
+      ...entries.map((entry) => entry.offset + 1),
+    ]),
+  );
+};
+
+/**
+ * Build a minimal archive with an optional leaf directory
+ */
+const buildArchive = (
+  tiles: { z: number; x: number; y: number; data: Uint8Array }[],
+  options: { leaf?: boolean; tileCompression?: PMTilesCompression } = {},
+): ArrayBuffer => {
+  let dataOffset = 0;
+  const entries = tiles
+    .map((tile) => ({ ...tile, tileId: zxyToTileId(tile.z, tile.x, tile.y) }))
+    .sort((a, b) => a.tileId - b.tileId)
+    .map((tile) => {
+      const entry = {
+        tileId: tile.tileId,
+        offset: dataOffset,
+        length: tile.data.length,
+        runLength: 1,
+        data: tile.data,
+      };
+      dataOffset += tile.data.length;
+      return entry;
+    });
+
+  const leafDirectory = options.leaf ? encodeDirectory(entries) : new Uint8Array(0);
+  const rootDirectory = options.leaf
+    ? encodeDirectory([{ tileId: entries[0].tileId, offset: 0, length: leafDirectory.length, runLength: 0 }])
+    : encodeDirectory(entries);
+
+  const rootOffset = 127;
+  const leafOffset = rootOffset + rootDirectory.length;
+  const tileDataOffset = leafOffset + leafDirectory.length;
+  const buffer = new ArrayBuffer(tileDataOffset + dataOffset);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  'PMTiles'.split('').forEach((char, i) => {
+    bytes[i] = char.charCodeAt(0);
+  });
+  bytes[7] = 3;
+  const setUint64 = (offset: number, value: number): void => {
+    view.setUint32(offset, value, true);
+  };
+  setUint64(8, rootOffset);
+  setUint64(16, rootDirectory.length);
+  setUint64(40, leafOffset);
+  setUint64(48, leafDirectory.length);
+  setUint64(56, tileDataOffset);
+  setUint64(64, dataOffset);
+  bytes[97] = PMTilesCompression.None;
+  bytes[98] = options.tileCompression || PMTilesCompression.None;
+  bytes[99] = 1; // MVT
+  bytes[100] = 0;
+  bytes[101] = 14;
+  view.setInt32(102, -10 * 1e7, true);
+  view.setInt32(106, 35 * 1e7, true);
+  view.setInt32(110, 5 * 1e7, true);
+  view.setInt32(114, 52 * 1e7, true);
+
+  bytes.set(rootDirectory, rootOffset);
+  bytes.set(leafDirectory, leafOffset);
+  entries.forEach((entry) => {
+    bytes.set(entry.data, tileDataOffset + entry.offset);
+  });
+  return buffer;
+};
+
+const toBytes = (buffer: ArrayBuffer | undefined): number[] => Array.from(new Uint8Array(buffer as ArrayBuffer));
+
+/**
+ * Fetch mock answering range requests from the archive
+ */
+const mockRangeFetch = (data: ArrayBuffer): jest.Mock =>
+  jest.fn((_url: string, init: RequestInit) => {
+    const [start, end] = (init.headers as Record<string, string>).Range.replace('bytes=', '').split('-').map(Number);
+    return Promise.resolve({
+      status: 206,
+      arrayBuffer: () => Promise.resolve(data.slice(start, end + 1)),
+    });
+  });
+
+describe('PMTiles', () => {
+  const tiles = [
+    { z: 0, x: 0, y: 0, data: new Uint8Array([1, 2, 3]) },
+    { z: 1, x: 1, y: 0, data: new Uint8Array([4, 5]) },
+    { z: 2, x: 2, y: 3, data: new Uint8Array([6]) },
+  ];
+
+  describe('zxyToTileId', () => {
+    test('should follow the Hilbert curve ordering', () => {
+      expect(zxyToTileId(0, 0, 0)).toBe(0);
+      expect(zxyToTileId(1, 0, 0)).toBe(1);
+      expect(zxyToTileId(1, 0, 1)).toBe(2);
+      expect(zxyToTileId(1, 1, 1)).toBe(3);
+      expect(zxyToTileId(1, 1, 0)).toBe(4);
+      expect(zxyToTileId(2, 0, 0)).toBe(5);
+      expect(zxyToTileId(12, 3423, 1763)).toBe(19078479);
+    });
+
+    test('should reject coordinates outside the zoom level', () => {
+      expect(() => zxyToTileId(1, 2, 0)).toThrow('out of range');
+    });
+  });
+
+  describe('PMTilesArchive', () => {
+    test('should parse the header', async () => {
+      const archive = new PMTilesArchive(buildArchive(tiles));
+      const header = await archive.getHeader();
+
+      expect(header.specVersion).toBe(3);
+      expect(header.maxZoom).toBe(14);
+      expect(header.minLon).toBe(-10);
+      expect(header.maxLat).toBe(52);
+      await expect(archive.getSourceOptions()).resolves.toEqual({
+        minZoom: 0,
+        sourceMaxZoom: 14,
+        bounds: [-10, 35, 5, 52],
+      });
+    });
+
+    test('should reject files that are not PMTiles archives', async () => {
+      const archive = new PMTilesArchive(new ArrayBuffer(256));
+
+      await expect(archive.getHeader()).rejects.toThrow('Not a PMTiles archive');
+    });
+
+    test('should read tiles from the root directory', async () => {
+      const archive = new PMTilesArchive(buildArchive(tiles));
+
+      expect(toBytes(await archive.getTile(0, 0, 0))).toEqual([1, 2, 3]);
+      expect(toBytes(await archive.getTile(2, 2, 3))).toEqual([6]);
+      await expect(archive.getTile(1, 0, 0)).resolves.toBeUndefined();
+    });
+
+    test('should follow leaf directories', async () => {
+      const archive = new PMTilesArchive(buildArchive(tiles, { leaf: true }));
+
+      expect(toBytes(await archive.getTile(1, 1, 0))).toEqual([4, 5]);
+      await expect(archive.getTile(2, 0, 0)).resolves.toBeUndefined();
+    });
+
+    test('should read tiles from a Blob', async () => {
+      const archive = new PMTilesArchive(new Blob([buildArchive(tiles)]));
+
+      expect(toBytes(await archive.getTile(1, 1, 0))).toEqual([4, 5]);
+    });
+
+    test('should read tiles with HTTP range requests', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = mockRangeFetch(buildArchive(tiles)) as any;
+
+      try {
+        const archive = new PMTilesArchive('https://tiles.com/roads.pmtiles', { Authorization: 'Bearer token' });
+
+        expect(toBytes(await archive.getTile(2, 2, 3))).toEqual([6]);
+        expect(global.fetch).toHaveBeenCalledWith('https://tiles.com/roads.pmtiles', {
+          headers: { Authorization: 'Bearer token', Range: 'bytes=0-16383' },
+          signal: undefined,
+        });
+        // Header and root directory come from the first request, the tile from the second
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+
+    test('should decompress gzipped tiles', async () => {
+      const originalDecompressionStream = (global as any).DecompressionStream;
+      (global as any).DecompressionStream = NodeDecompressionStream;
+
+      try {
+        const compressed = new Uint8Array(gzipSync(Buffer.from([7, 8, 9])));
+        const archive = new PMTilesArchive(
+          buildArchive([{ z: 0, x: 0, y: 0, data: compressed }], { tileCompression: PMTilesCompression.Gzip }),
+        );
+
+        expect(toBytes(await archive.getTile(0, 0, 0))).toEqual([7, 8, 9]);
+      } finally {
+        (global as any).DecompressionStream = originalDecompressionStream;
+      }
+    });
+
+    test('should drop a root directory that fails to parse', async () => {
+      const data = buildArchive(tiles);
+      new Uint8Array(data)[97] = 9; // Unknown internal compression
+      const archive = new PMTilesArchive(data);
+
+      await expect(archive.getTile(0, 0, 0)).rejects.toThrow('Unsupported PMTiles compression 9');
+      expect((archive as any)._directoryCache.size).toBe(0);
+    });
+  });
+
+  describe('createPMTilesTileLoader', () => {
+    test('should resolve missing tiles to an empty tile', async () => {
+      const loader = createPMTilesTileLoader(new PMTilesArchive(buildArchive(tiles)));
+
+      expect(toBytes(await loader({ z: 0, x: 0, y: 0 }, new AbortController().signal, {}))).toEqual([1, 2, 3]);
+      expect((await loader({ z: 1, x: 0, y: 0 }, new AbortController().signal, {})).byteLength).toBe(0);
+    });
+
+    test('should send request headers with the range requests', async () => {
+      const originalFetch = global.fetch;
+      global.fetch = mockRangeFetch(buildArchive(tiles)) as any;
+
+      try {
+        const archive = new PMTilesArchive('https://tiles.com/roads.pmtiles', { 'X-Client': 'map' });
+        const loader = createPMTilesTileLoader(archive);
+        const { signal } = new AbortController();
+
+        expect(toBytes(await loader({ z: 2, x: 2, y: 3 }, signal, { Authorization: 'Bearer fresh' }))).toEqual([6]);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        (global.fetch as jest.Mock).mock.calls.forEach(([, init]) => {
+          expect(init.headers).toMatchObject({ 'X-Client': 'map', Authorization: 'Bearer fresh' });
+        });
+      } finally {
+        global.fetch = originalFetch;
+      }
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { IDBFactory, IDBKeyRange as FakeIDBKeyRange, IDBObjectStore } from 'fake-indexeddb';
+import { deserialize, serialize } from 'v8';
+import { PersistentTileCache, withPersistentCache } from '../../src/PersistentTileCache';
+import { CachedTile } from '../../src/types';
+
+describe('PersistentTileCache', () => {
+  const coord = { z: 10, x: 512, y: 340 };
+
+  const createCachedTile = (overrides: Partial<CachedTile> = {}): CachedTile => ({
+    key: PersistentTileCache.getKey('roads', coord),
+    namespace: 'roads',
+    data: new ArrayBuffer(4),
+    size: 4,
+    etag: '"v1"',
+    storedAt: Date.now(),
+    accessedAt: Date.now(),
+    ...overrides,
+  });
+
+  const createCache = (cached?: CachedTile, expired = false): PersistentTileCache =>
+    ({
+      get: jest.fn(() => Promise.resolve(cached)),
+      put: jest.fn(() => Promise.resolve()),
+      isExpired: jest.fn(() => expired),
+    }) as unknown as PersistentTileCache;
+
+  describe('without IndexedDB', () => {
+    test('should resolve quietly', async () => {
+      const cache = new PersistentTileCache();
+
+      expect(PersistentTileCache.isSupported()).toBe(false);
+      await expect(cache.get('roads', coord)).resolves.toBeUndefined();
+      await expect(cache.put('roads', coord, new ArrayBuffer(4))).resolves.toBeUndefined();
+      await expect(cache.clear('roads')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('with IndexedDB', () => {
+    let cache: PersistentTileCache;
+    let now: number;
+
+    const bytes = (size: number): ArrayBuffer => new Uint8Array(size).fill(size).buffer;
+    const tileAt = (x: number): { z: number; x: number; y: number } => ({ z: 10, x, y: 340 });
+
+    beforeEach(() => {
+      (global as any).indexedDB = new IDBFactory();
+      (global as any).IDBKeyRange = FakeIDBKeyRange;
+      // Used by fake-indexeddb to copy records, jsdom does not provide it
+      (global as any).structuredClone = (value: unknown): unknown => deserialize(serialize(value));
+      now = 1000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      cache.close();
+      delete (global as any).indexedDB;
+      delete (global as any).IDBKeyRange;
+      delete (global as any).structuredClone;
+      jest.restoreAllMocks();
+    });
+
+    test('should store tiles with their validators', async () => {
+      cache = new PersistentTileCache();
+
+      await cache.put('roads', coord, bytes(8), { etag: '"v1"', lastModified: 'Mon, 01 Sep 2025 00:00:00 GMT' });
+      const tile = await cache.get('roads', coord);
+
+      expect(tile).toMatchObject({
+        namespace: 'roads',
+        size: 8,
+        etag: '"v1"',
+        lastModified: 'Mon, 01 Sep 2025 00:00:00 GMT',
+      });
+      expect(new Uint8Array(tile?.data as ArrayBuffer)).toEqual(new Uint8Array(bytes(8)));
+      await expect(cache.get('buildings', coord)).resolves.toBeUndefined();
+    });
+
+    test('should expire tiles after the TTL', async () => {
+      cache = new PersistentTileCache({ ttl: 500 });
+      await cache.put('roads', coord, bytes(8));
+
+      now = 1500;
+      expect(cache.isExpired((await cache.get('roads', coord)) as CachedTile)).toBe(false);
+      now = 1501;
+      expect(cache.isExpired((await cache.get('roads', coord)) as CachedTile)).toBe(true);
+    });
+
+    test('should mark tiles as used on reads without rewriting their bytes', async () => {
+      cache = new PersistentTileCache();
+      await cache.put('roads', coord, bytes(8));
+      const put = jest.spyOn(IDBObjectStore.prototype, 'put');
+
+      now = 2000;
+      await cache.get('roads', coord);
+      await cache.get('roads', coord);
+
+      expect((await cache.get('roads', coord))?.accessedAt).toBe(2000);
+      expect(put).toHaveBeenCalled();
+      put.mock.calls.forEach(([record]) => expect(record).not.toHaveProperty('data'));
+    });
+
+    test('should evict the least recently used tiles down to the low-water mark', async () => {
+      cache = new PersistentTileCache({ maxSize: 100 });
+      const putAt = (x: number): Promise<void> => {
+        now += 10;
+        return cache.put('roads', tileAt(x), bytes(30));
+      };
+      await putAt(0);
+      await putAt(1);
+      await putAt(2);
+      // Reading the first tile makes the second one the least recently used
+      now += 10;
+      await cache.get('roads', tileAt(0));
+
+      // 120 bytes exceed the quota, eviction goes down to 80
+      await putAt(3);
+
+      const remaining = await Promise.all([0, 1, 2, 3].map((x) => cache.get('roads', tileAt(x))));
+      expect(remaining.map((tile) => tile !== undefined)).toEqual([true, false, false, true]);
+
+      // 60 bytes stored, the next tile fits without evicting
+      await putAt(4);
+      await expect(cache.get('roads', tileAt(0))).resolves.toBeDefined();
+    });
+
+    test('should clear one namespace or every tile', async () => {
+      cache = new PersistentTileCache();
+      await cache.put('roads', coord, bytes(8));
+      await cache.put('buildings', coord, bytes(8));
+
+      await cache.clear('roads');
+
+      await expect(cache.get('roads', coord)).resolves.toBeUndefined();
+      await expect(cache.get('buildings', coord)).resolves.toBeDefined();
+
+      await cache.clear();
+
+      await expect(cache.get('buildings', coord)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('withPersistentCache', () => {
+    const { signal } = new AbortController();
+
+    test('should serve fresh tiles without a request', async () => {
+      const cached = createCachedTile();
+      const loader = jest.fn();
+      const cachedLoader = withPersistentCache(loader, createCache(cached), () => 'roads');
+
+      const response = await cachedLoader(coord, signal, {});
+
+      expect(loader).not.toHaveBeenCalled();
+      expect(response).toMatchObject({ data: cached.data });
+    });
+
+    test('should store downloaded tiles with their validators', async () => {
+      const data = new ArrayBuffer(8);
+      const cache = createCache();
+      const loader = jest.fn(() =>
+        Promise.resolve({ data, etag: '"v2"', lastModified: 'Mon, 01 Sep 2025 00:00:00 GMT' }),
+      );
+
+      await withPersistentCache(loader, cache, () => 'roads')(coord, signal, { 'X-Api-Key': 'secret' });
+
+      expect(loader).toHaveBeenCalledWith(coord, signal, { 'X-Api-Key': 'secret' });
+      expect(cache.put).toHaveBeenCalledWith('roads', coord, data, expect.objectContaining({ etag: '"v2"' }));
+    });
+
+    test('should revalidate expired tiles with conditional headers', async () => {
+      const cached = createCachedTile({ lastModified: 'Mon, 01 Sep 2025 00:00:00 GMT' });
+      const cache = createCache(cached, true);
+      const loader = jest.fn(() => Promise.resolve({ data: new ArrayBuffer(0), notModified: true }));
+
+      const response = await withPersistentCache(loader, cache, () => 'roads')(coord, signal, {});
+
+      expect(loader).toHaveBeenCalledWith(coord, signal, {
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Mon, 01 Sep 2025 00:00:00 GMT',
+      });
+      expect(response.data).toBe(cached.data);
+      // The TTL restarts for tiles that did not change
+      expect(cache.put).toHaveBeenCalledWith('roads', coord, cached.data, cached);
+    });
+
+    test('should revalidate fresh tiles on request', async () => {
+      const cached = createCachedTile();
+      const loader = jest.fn(() => Promise.resolve({ data: new ArrayBuffer(0), notModified: true }));
+      const shouldRevalidate = jest.fn(() => true);
+
+      const response = await withPersistentCache(
+        loader,
+        createCache(cached),
+        () => 'roads',
+        shouldRevalidate,
+      )(coord, signal, {});
+
+      expect(shouldRevalidate).toHaveBeenCalledWith(coord);
+      expect(loader).toHaveBeenCalledWith(coord, signal, { 'If-None-Match': '"v1"' });
+      expect(response.data).toBe(cached.data);
+    });
+
+    test('should replace expired tiles that changed', async () => {
+      const data = new ArrayBuffer(16);
+      const cache = createCache(createCachedTile(), true);
+      const loader = jest.fn(() => Promise.resolve(data));
+
+      const response = await withPersistentCache(loader, cache, () => 'roads')(coord, signal, {});
+
+      expect(response.data).toBe(data);
+      expect(cache.put).toHaveBeenCalledWith('roads', coord, data, { data });
+    });
+
+    test('should serve downloaded tiles when storing them fails', async () => {
+      const data = new ArrayBuffer(8);
+      const cache = createCache();
+      (cache.put as jest.Mock).mockReturnValue(Promise.reject(new Error('QuotaExceededError')));
+
+      const response = await withPersistentCache(jest.fn().mockResolvedValue(data), cache, () => 'roads')(
+        coord,
+        signal,
+        {},
+      );
+
+      expect(response.data).toBe(data);
+    });
+
+    test('should request the full tile when a 304 has no cached copy', async () => {
+      const data = new ArrayBuffer(8);
+      const loader = jest
+        .fn()
+        .mockResolvedValueOnce({ data: new ArrayBuffer(0), notModified: true })
+        .mockResolvedValueOnce(data);
+
+      const response = await withPersistentCache(loader, createCache(), () => 'roads')(coord, signal, {
+        'X-Api-Key': 'secret',
+        'If-None-Match': '"v0"',
+      });
+
+      expect(response.data).toBe(data);
+      expect(loader).toHaveBeenLastCalledWith(coord, signal, { 'X-Api-Key': 'secret' });
+    });
+
+    test('should reject 304 responses that cannot be served', async () => {
+      const loader = jest.fn().mockResolvedValue({ data: new ArrayBuffer(0), notModified: true });
+
+      await expect(withPersistentCache(loader, createCache(), () => 'roads')(coord, signal, {})).rejects.toThrow(
+        'Tile 10/512/340 was not modified but is not cached',
+      );
+    });
+  });
+});
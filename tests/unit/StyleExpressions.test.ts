@@ -0,0 +1,169 @@
+import { VectorTileFeature } from '@mapbox/vector-tile';
+import { StyleExpressionError, StyleExpressions } from '../../src/StyleExpressions';
+import { FeatureStyleContext, TileContext } from '../../src/types';
+import { createMockTileContext } from '../utils/mockData';
+
+const createFeature = (properties: Record<string, unknown>, type = 3): VectorTileFeature =>
+  ({ type, properties }) as unknown as VectorTileFeature;
+
+const createContext = (
+  feature: VectorTileFeature,
+  overrides: Partial<FeatureStyleContext> = {},
+): FeatureStyleContext => ({
+  feature,
+  layerName: 'roads',
+  zoom: 10,
+  selected: false,
+  hovered: false,
+  featureState: {},
+  ...overrides,
+});
+
+const styleFor = (
+  style: Parameters<typeof StyleExpressions.compileStyle>[0],
+  properties: Record<string, unknown>,
+  overrides: Partial<FeatureStyleContext> = {},
+): Record<string, unknown> => {
+  const feature = createFeature(properties);
+  return StyleExpressions.compileStyle(style)(feature, createContext(feature, overrides)) as Record<string, unknown>;
+};
+
+describe('StyleExpressions', () => {
+  describe('compileStyle', () => {
+    test('should keep literal values and evaluate get and coalesce', () => {
+      const style = { strokeStyle: '#333', fillStyle: ['coalesce', ['get', 'color'], 'gray'] };
+
+      expect(styleFor(style, { color: 'red' })).toEqual({ strokeStyle: '#333', fillStyle: 'red' });
+      expect(styleFor(style, {})).toEqual({ strokeStyle: '#333', fillStyle: 'gray' });
+    });
+
+    test('should evaluate match with single and grouped labels', () => {
+      const style = { lineWidth: ['match', ['get', 'class'], 'motorway', 6, ['primary', 'secondary'], 3, 1] };
+
+      expect(styleFor(style, { class: 'motorway' }).lineWidth).toBe(6);
+      expect(styleFor(style, { class: 'secondary' }).lineWidth).toBe(3);
+      expect(styleFor(style, { class: 'path' }).lineWidth).toBe(1);
+    });
+
+    test('should evaluate case with comparisons and boolean operators', () => {
+      const style = {
+        fillStyle: [
+          'case',
+          ['all', ['>=', ['get', 'population'], 1000000], ['==', ['get', 'capital'], true]],
+          'red',
+          ['any', ['>', ['get', 'population'], 100000], ['!', ['has', 'population']]],
+          'orange',
+          'yellow',
+        ],
+      };
+
+      expect(styleFor(style, { population: 2000000, capital: true }).fillStyle).toBe('red');
+      expect(styleFor(style, { population: 200000 }).fillStyle).toBe('orange');
+      expect(styleFor(style, {}).fillStyle).toBe('orange');
+      expect(styleFor(style, { population: 500 }).fillStyle).toBe('yellow');
+    });
+
+    test('should interpolate numbers and colors over zoom', () => {
+      const style = {
+        lineWidth: ['interpolate', ['linear'], ['zoom'], 10, 1, 14, 5],
+        strokeStyle: ['interpolate', ['linear'], ['zoom'], 10, '#000000', 14, 'rgba(200, 100, 0, 0)'],
+      };
+
+      expect(styleFor(style, {}, { zoom: 8 }).lineWidth).toBe(1);
+      expect(styleFor(style, {}, { zoom: 12 })).toEqual({ lineWidth: 3, strokeStyle: 'rgba(100, 50, 0, 0.5)' });
+      expect(styleFor(style, {}, { zoom: 20 }).lineWidth).toBe(5);
+    });
+
+    test('should interpolate exponentially over properties', () => {
+      const style = { radius: ['interpolate', ['exponential', 2], ['get', 'rank'], 0, 0, 2, 3] };
+
+      expect(styleFor(style, { rank: 1 }).radius).toBe(1);
+      expect(styleFor(style, { rank: 'high' }).radius).toBeUndefined();
+    });
+
+    test('should evaluate step', () => {
+      const style = { radius: ['step', ['zoom'], 2, 12, 4, 16, 8] };
+
+      expect(styleFor(style, {}, { zoom: 11 }).radius).toBe(2);
+      expect(styleFor(style, {}, { zoom: 12 }).radius).toBe(4);
+      expect(styleFor(style, {}, { zoom: 18 }).radius).toBe(8);
+    });
+
+    test('should read feature state and compile selected and hover styles', () => {
+      const style = {
+        fillStyle: ['case', ['==', ['feature-state', 'visited'], true], 'gray', 'blue'],
+        selected: { lineWidth: ['step', ['zoom'], 2, 14, 4] },
+      };
+
+      const result = styleFor(style, {}, { featureState: { visited: true }, zoom: 15 });
+
+      expect(result).toEqual({ fillStyle: 'gray', selected: { lineWidth: 4 } });
+    });
+
+    test('should compile label styles', () => {
+      const style = {
+        label: {
+          textField: 'name',
+          fontSize: ['interpolate', ['linear'], ['zoom'], 10, 10, 14, 14],
+          offset: ['literal', [0, 8]],
+        },
+      };
+
+      expect(styleFor(style, {}, { zoom: 12 })).toEqual({ label: { textField: 'name', fontSize: 12, offset: [0, 8] } });
+    });
+
+    test('should keep fill pattern objects as they are', () => {
+      const hatch = { type: 'diagonal', spacing: 6 };
+      const style = { fillPattern: ['case', ['get', 'restricted'], ['literal', hatch], null] };
+
+      expect(styleFor({ fillPattern: hatch }, {}).fillPattern).toBe(hatch);
+      expect(styleFor(style, { restricted: true }).fillPattern).toEqual(hatch);
+      expect(styleFor(style, { restricted: false }).fillPattern).toBeUndefined();
+    });
+  });
+
+  describe('compileFilter', () => {
+    test('should filter on properties, geometry type and tile zoom', () => {
+      const filter = StyleExpressions.compileFilter([
+        'all',
+        ['==', ['geometry-type'], 'LineString'],
+        ['match', ['get', 'class'], ['primary', 'secondary'], true, ['>=', ['zoom'], 14]],
+      ]);
+      const tileContext: TileContext = createMockTileContext({ zoom: 12 });
+
+      expect(filter(createFeature({ class: 'primary' }, 2), tileContext)).toBe(true);
+      expect(filter(createFeature({ class: 'path' }, 2), tileContext)).toBe(false);
+      expect(filter(createFeature({ class: 'path' }, 2), { ...tileContext, zoom: 15 })).toBe(true);
+      expect(filter(createFeature({ class: 'primary' }, 3), tileContext)).toBe(false);
+    });
+  });
+
+  describe('validation', () => {
+    test('should report malformed expressions with their path', () => {
+      expect(StyleExpressions.validateStyle({ lineWidth: ['step', ['zoom'], 1, 10, 2] })).toEqual([]);
+      expect(
+        StyleExpressions.validateStyle({
+          fillStyle: ['mtach', ['get', 'class'], 'a', 'red', 'blue'],
+          lineWidth: ['interpolate', ['linear'], ['zoom'], 14, 1, 10, 5],
+          selected: { radius: ['get'] },
+        }),
+      ).toEqual([
+        'fillStyle: Unknown operator "mtach"',
+        'lineWidth[5]: Stop inputs must be in strictly ascending order',
+        'selected.radius: Expected 1 arguments, got 0',
+      ]);
+    });
+
+    test('should validate filters', () => {
+      expect(StyleExpressions.validateFilter(['==', ['get', 'class'], 'primary'])).toEqual([]);
+      expect(StyleExpressions.validateFilter(['match', ['get', 'class'], 'a', true, 'a', false, false])).toEqual([
+        'filter[4]: Duplicate match label "a"',
+      ]);
+    });
+
+    test('should throw StyleExpressionError when compiling invalid styles', () => {
+      expect(() => StyleExpressions.compileStyle({ lineWidth: [1, 2] })).toThrow(StyleExpressionError);
+      expect(() => StyleExpressions.compileFilter(['case', true, false])).toThrow(StyleExpressionError);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { TileAvailabilityIndex, mergeRanges, parseColumnKey } from '../../src/TileAvailabilityIndex';
+
+describe('TileAvailabilityIndex', () => {
+  test('should look up tiles in range manifests', () => {
+    const index = new TileAvailabilityIndex({
+      '10': {
+        '512': [
+          [400, 450],
+          [256, 300],
+        ],
+        '513': [[256, 300]],
+      },
+    });
+
+    expect(index.isAvailable(10, 512, 256)).toBe(true);
+    expect(index.isAvailable(10, 512, 425)).toBe(true);
+    expect(index.isAvailable(10, 512, 350)).toBe(false);
+    expect(index.isAvailable(10, 514, 256)).toBe(false);
+    expect(index.isAvailable(11, 512, 256)).toBe(false);
+    expect(index.hasZoom(10)).toBe(true);
+    expect(index.hasZoom(11)).toBe(false);
+  });
+
+  test('should split overlapping column ranges and merge their y ranges', () => {
+    const index = new TileAvailabilityIndex({
+      '4': {
+        '2-5': [[0, 3]],
+        '3': [[4, 6]],
+      },
+    });
+
+    expect(index.isAvailable(4, 2, 3)).toBe(true);
+    expect(index.isAvailable(4, 3, 6)).toBe(true);
+    expect(index.isAvailable(4, 4, 6)).toBe(false);
+    expect(index.isAvailable(4, 6, 0)).toBe(false);
+  });
+
+  test('should keep wide column ranges without expanding them', () => {
+    const index = new TileAvailabilityIndex({
+      '20': {
+        '0-1048575': [[1000, 2000]],
+        '500000-500009': [[0, 10]],
+      },
+    });
+
+    expect(index.isAvailable(20, 0, 1000)).toBe(true);
+    expect(index.isAvailable(20, 1048575, 2000)).toBe(true);
+    expect(index.isAvailable(20, 500009, 5)).toBe(true);
+    expect(index.isAvailable(20, 500010, 5)).toBe(false);
+    expect(index.isAvailable(20, 499999, 1500)).toBe(true);
+    expect(index.isAvailable(20, 1048576, 1500)).toBe(false);
+    expect((index as any)._columns.get(20).yRanges.length).toBe(3);
+  });
+
+  test('should convert bounding box manifests to tile ranges', () => {
+    // Western Europe from z3 to z8
+    const index = new TileAvailabilityIndex({ type: 'bbox', bounds: [-10, 35, 5, 52], minZoom: 3, maxZoom: 8 });
+
+    expect(index.isAvailable(4, 7, 5)).toBe(true);
+    expect(index.isAvailable(4, 0, 0)).toBe(false);
+    expect(index.isAvailable(2, 1, 1)).toBe(false);
+    expect(index.isAvailable(9, 255, 170)).toBe(false);
+    expect(index.hasZoom(8)).toBe(true);
+  });
+
+  test('should handle bounding boxes crossing the antimeridian', () => {
+    const index = new TileAvailabilityIndex({ type: 'bbox', bounds: [[170, -20, -170, 0]] });
+
+    expect(index.isAvailable(2, 3, 2)).toBe(true);
+    expect(index.isAvailable(2, 0, 2)).toBe(true);
+    expect(index.isAvailable(2, 1, 2)).toBe(false);
+  });
+
+  test('should check per-zoom extents', () => {
+    const index = new TileAvailabilityIndex({
+      type: 'extent',
+      zooms: { '6': { minX: 30, maxX: 34, minY: 20, maxY: 22 } },
+    });
+
+    expect(index.isAvailable(6, 32, 21)).toBe(true);
+    expect(index.isAvailable(6, 35, 21)).toBe(false);
+    expect(index.hasZoom(7)).toBe(false);
+  });
+
+  test('should parse column keys and merge ranges', () => {
+    expect(parseColumnKey('12')).toEqual([12, 12]);
+    expect(parseColumnKey('12-15')).toEqual([12, 15]);
+    expect(parseColumnKey('15-12')).toBeUndefined();
+    expect(parseColumnKey('x')).toBeUndefined();
+    expect(
+      mergeRanges([
+        [5, 6],
+        [0, 2],
+        [3, 3],
+        [8, 9],
+      ]),
+    ).toEqual([
+      [0, 3],
+      [5, 6],
+      [8, 9],
+    ]);
+  });
+});
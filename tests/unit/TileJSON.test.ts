@@ -0,0 +1,81 @@
+import { loadTileJSON, tileJSONToOptions } from '../../src/TileJSON';
+import { TileJSON } from '../../src/types';
+
+describe('TileJSON', () => {
+  const tileJSON: TileJSON = {
+    tilejson: '3.0.0',
+    tiles: ['https://tiles.com/{z}/{x}/{y}.pbf'],
+    minzoom: 4,
+    maxzoom: 14,
+    bounds: [-10, 35, 5, 52],
+    vector_layers: [{ id: 'roads', fields: { class: 'String' } }],
+  };
+
+  describe('tileJSONToOptions', () => {
+    test('should map TileJSON metadata to source options', () => {
+      expect(tileJSONToOptions(tileJSON)).toEqual({
+        url: 'https://tiles.com/{z}/{x}/{y}.pbf',
+        minZoom: 4,
+        sourceMaxZoom: 14,
+        bounds: [-10, 35, 5, 52],
+        vectorLayers: [{ id: 'roads', fields: { class: 'String' } }],
+      });
+    });
+
+    test('should flip rows for TMS sources', () => {
+      expect(tileJSONToOptions({ tiles: ['https://tiles.com/{z}/{x}/{y}.pbf'], scheme: 'tms' }).url).toBe(
+        'https://tiles.com/{z}/{x}/{-y}.pbf',
+      );
+    });
+
+    test('should spread requests across multiple tile URLs', () => {
+      const { url } = tileJSONToOptions({
+        tiles: ['https://a.tiles.com/{z}/{x}/{y}', 'https://b.tiles.com/{z}/{x}/{y}'],
+      });
+
+      expect(typeof url).toBe('function');
+      const getUrl = url as (coord: { z: number; x: number; y: number }) => string;
+      expect(getUrl({ z: 1, x: 0, y: 0 })).toBe('https://a.tiles.com/1/0/0');
+      expect(getUrl({ z: 1, x: 1, y: 0 })).toBe('https://b.tiles.com/1/1/0');
+    });
+
+    test('should reject documents without tile URLs', () => {
+      expect(() => tileJSONToOptions({ tiles: [] })).toThrow('TileJSON has no tile URLs');
+    });
+  });
+
+  describe('loadTileJSON', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('should return loaded documents unchanged', async () => {
+      await expect(loadTileJSON(tileJSON)).resolves.toBe(tileJSON);
+    });
+
+    test('should fetch the document and resolve relative tile URLs', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ tiles: ['/tiles/{z}/{x}/{y}.pbf'] }),
+      }) as any;
+
+      const result = await loadTileJSON('https://tiles.com/data/roads.json', { Authorization: 'Bearer token' });
+
+      expect(global.fetch).toHaveBeenCalledWith('https://tiles.com/data/roads.json', {
+        method: 'GET',
+        headers: { Accept: 'application/json', Authorization: 'Bearer token' },
+      });
+      expect(result.tiles).toEqual(['https://tiles.com/tiles/{z}/{x}/{y}.pbf']);
+    });
+
+    test('should reject failed requests', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }) as any;
+
+      await expect(loadTileJSON('https://tiles.com/missing.json')).rejects.toThrow(
+        'Failed to fetch TileJSON: 404 Not Found',
+      );
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { TileLoadError, buildTileUrl, createXhrTileLoader, resolveTileUrl } from '../../src/TileLoader';
+
+class MockXMLHttpRequest {
+  static instances: MockXMLHttpRequest[] = [];
+
+  status = 0;
+  response: ArrayBuffer | null = null;
+  responseType = '';
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  open = jest.fn();
+  send = jest.fn();
+  abort = jest.fn();
+  setRequestHeader = jest.fn();
+  responseHeaders: Record<string, string> = {};
+  getResponseHeader = jest.fn((header: string) => this.responseHeaders[header] || null);
+
+  constructor() {
+    MockXMLHttpRequest.instances.push(this);
+  }
+
+  respond(status: number, response: ArrayBuffer | null): void {
+    this.status = status;
+    this.response = response;
+    this.onload?.();
+  }
+}
+
+describe('TileLoader', () => {
+  const originalXMLHttpRequest = global.XMLHttpRequest;
+
+  beforeEach(() => {
+    MockXMLHttpRequest.instances = [];
+    global.XMLHttpRequest = MockXMLHttpRequest as any;
+  });
+
+  afterAll(() => {
+    global.XMLHttpRequest = originalXMLHttpRequest;
+  });
+
+  describe('buildTileUrl', () => {
+    test('should replace z, x and y tokens', () => {
+      expect(buildTileUrl('https://tiles.com/{z}/{x}/{y}.pbf', { z: 10, x: 512, y: 340 })).toBe(
+        'https://tiles.com/10/512/340.pbf',
+      );
+    });
+
+    test('should replace every occurrence of a token', () => {
+      expect(buildTileUrl('https://tiles.com/{z}/{x}/{y}.pbf?key={z}-{x}-{y}', { z: 2, x: 1, y: 3 })).toBe(
+        'https://tiles.com/2/1/3.pbf?key=2-1-3',
+      );
+    });
+
+    test('should flip the row for TMS templates', () => {
+      expect(buildTileUrl('{z}/{x}/{-y}', { z: 3, x: 2, y: 1 })).toBe('3/2/6');
+    });
+
+    test('should rotate subdomains by tile position', () => {
+      expect(buildTileUrl('https://{s}.tiles.com/{z}/{x}/{y}.pbf', { z: 1, x: 0, y: 0 })).toBe(
+        'https://a.tiles.com/1/0/0.pbf',
+      );
+      expect(buildTileUrl('https://{s}.tiles.com/{z}/{x}/{y}.pbf', { z: 1, x: 1, y: 0 })).toBe(
+        'https://b.tiles.com/1/1/0.pbf',
+      );
+      expect(buildTileUrl('https://{s}.tiles.com/t.pbf', { z: 1, x: 1, y: 1 }, ['t0', 't1'])).toBe(
+        'https://t0.tiles.com/t.pbf',
+      );
+      expect(buildTileUrl('https://{s}.tiles.com/t.pbf', { z: 1, x: 0, y: 1 }, '123')).toBe(
+        'https://2.tiles.com/t.pbf',
+      );
+    });
+
+    test('should build Bing-style quadkeys', () => {
+      expect(buildTileUrl('https://tiles.com/{quadkey}.pbf', { z: 3, x: 3, y: 5 })).toBe('https://tiles.com/213.pbf');
+    });
+
+    test('should add the retina suffix on high density screens', () => {
+      const originalRatio = window.devicePixelRatio;
+      Object.defineProperty(window, 'devicePixelRatio', { value: 2, configurable: true });
+      expect(buildTileUrl('tiles/{z}/{x}/{y}{r}.pbf', { z: 1, x: 0, y: 0 })).toBe('tiles/1/0/0@2x.pbf');
+
+      Object.defineProperty(window, 'devicePixelRatio', { value: 1, configurable: true });
+      expect(buildTileUrl('tiles/{z}/{x}/{y}{r}.pbf', { z: 1, x: 0, y: 0 })).toBe('tiles/1/0/0.pbf');
+      Object.defineProperty(window, 'devicePixelRatio', { value: originalRatio, configurable: true });
+    });
+
+    test('should add the retina suffix for the given pixel ratio', () => {
+      const originalRatio = window.devicePixelRatio;
+      Object.defineProperty(window, 'devicePixelRatio', { value: 2, configurable: true });
+      expect(buildTileUrl('tiles/{z}/{x}/{y}{r}.pbf', { z: 1, x: 0, y: 0 }, undefined, 1)).toBe('tiles/1/0/0.pbf');
+      expect(resolveTileUrl('tiles/{z}/{x}/{y}{r}.pbf', { z: 1, x: 0, y: 0 }, undefined, 1)).toBe('tiles/1/0/0.pbf');
+
+      Object.defineProperty(window, 'devicePixelRatio', { value: 1, configurable: true });
+      expect(buildTileUrl('tiles/{z}/{x}/{y}{r}.pbf', { z: 1, x: 0, y: 0 }, undefined, 2)).toBe('tiles/1/0/0@2x.pbf');
+      Object.defineProperty(window, 'devicePixelRatio', { value: originalRatio, configurable: true });
+    });
+  });
+
+  describe('resolveTileUrl', () => {
+    test('should call URL functions with the tile coordinates', () => {
+      const url = jest.fn(({ z, x, y }) => `https://tiles.com/${z}/${x}/${y}.pbf?sig=abc`);
+
+      expect(resolveTileUrl(url, { z: 4, x: 2, y: 1 })).toBe('https://tiles.com/4/2/1.pbf?sig=abc');
+      expect(url).toHaveBeenCalledWith({ z: 4, x: 2, y: 1 });
+    });
+  });
+
+  describe('createXhrTileLoader', () => {
+    test('should request the tile URL with headers', async () => {
+      const loader = createXhrTileLoader((coord) => buildTileUrl('https://tiles.com/{z}/{x}/{y}.pbf', coord));
+      const promise = loader({ z: 1, x: 0, y: 1 }, new AbortController().signal, { Authorization: 'Bearer token' });
+
+      const xhr = MockXMLHttpRequest.instances[0];
+      expect(xhr.open).toHaveBeenCalledWith('GET', 'https://tiles.com/1/0/1.pbf', true);
+      expect(xhr.setRequestHeader).toHaveBeenCalledWith('Authorization', 'Bearer token');
+      expect(xhr.responseType).toBe('arraybuffer');
+
+      const buffer = new ArrayBuffer(8);
+      xhr.respond(200, buffer);
+      await expect(promise).resolves.toBe(buffer);
+    });
+
+    test('should pass on cache validators and not modified responses', async () => {
+      const loader = createXhrTileLoader(() => 'https://tiles.com/tile.pbf');
+      const fresh = loader({ z: 1, x: 0, y: 0 }, new AbortController().signal, {});
+      const buffer = new ArrayBuffer(8);
+      MockXMLHttpRequest.instances[0].responseHeaders = { ETag: '"v1"' };
+      MockXMLHttpRequest.instances[0].respond(200, buffer);
+
+      await expect(fresh).resolves.toEqual({ data: buffer, etag: '"v1"', lastModified: undefined });
+
+      const revalidated = loader({ z: 1, x: 0, y: 0 }, new AbortController().signal, { 'If-None-Match': '"v1"' });
+      MockXMLHttpRequest.instances[1].respond(304, null);
+
+      await expect(revalidated).resolves.toMatchObject({ notModified: true });
+    });
+
+    test('should reject with a TileLoadError carrying the status', async () => {
+      const loader = createXhrTileLoader(() => 'https://tiles.com/missing.pbf');
+      const promise = loader({ z: 1, x: 0, y: 0 }, new AbortController().signal, {});
+
+      MockXMLHttpRequest.instances[0].respond(404, null);
+
+      await expect(promise).rejects.toBeInstanceOf(TileLoadError);
+      await expect(promise).rejects.toMatchObject({ status: 404 });
+    });
+
+    test('should abort the request when the signal fires', async () => {
+      const loader = createXhrTileLoader(() => 'https://tiles.com/tile.pbf');
+      const controller = new AbortController();
+      const promise = loader({ z: 1, x: 0, y: 0 }, controller.signal, {});
+
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(MockXMLHttpRequest.instances[0].abort).toHaveBeenCalled();
+    });
+  });
+});
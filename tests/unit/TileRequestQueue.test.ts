@@ -0,0 +1,119 @@
+import { TileRequestQueue } from '../../src/TileRequestQueue';
+
+describe('TileRequestQueue', () => {
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const deferred = (): { promise: Promise<void>; resolve: () => void } => {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>((res) => {
+      resolve = res;
+    });
+    return { promise, resolve };
+  };
+
+  test('should limit the number of concurrent requests', async () => {
+    const queue = new TileRequestQueue(2);
+    const requests = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    requests.forEach((request, index) => {
+      queue.enqueue(`tile-${index}`, index, () => {
+        started.push(index);
+        return request.promise;
+      });
+    });
+    await flush();
+
+    expect(started).toEqual([0, 1]);
+    expect(queue.activeCount).toBe(2);
+    expect(queue.pendingCount).toBe(1);
+
+    requests[0].resolve();
+    await flush();
+
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  test('should start queued requests in priority order', async () => {
+    const queue = new TileRequestQueue(1);
+    const blocker = deferred();
+    const started: string[] = [];
+    const run = (id: string) => (): Promise<void> => {
+      started.push(id);
+      return Promise.resolve();
+    };
+
+    queue.enqueue('blocker', 0, () => blocker.promise);
+    queue.enqueue('far', 10, run('far'));
+    queue.enqueue('near', 1, run('near'));
+    queue.enqueue('middle', 5, run('middle'));
+
+    blocker.resolve();
+    await flush();
+
+    expect(started).toEqual(['near', 'middle', 'far']);
+  });
+
+  test('should reorder queued requests when reprioritized', async () => {
+    const queue = new TileRequestQueue(1);
+    const blocker = deferred();
+    const started: string[] = [];
+    const priorities: Record<string, number> = { a: 1, b: 2 };
+
+    queue.enqueue('blocker', 0, () => blocker.promise);
+    queue.enqueue('a', priorities.a, async () => {
+      started.push('a');
+    });
+    queue.enqueue('b', priorities.b, async () => {
+      started.push('b');
+    });
+
+    queue.reprioritize((id) => (id === 'a' ? 3 : 0));
+    blocker.resolve();
+    await flush();
+
+    expect(started).toEqual(['b', 'a']);
+  });
+
+  test('should drop cancelled requests before they start', async () => {
+    const queue = new TileRequestQueue(1);
+    const blocker = deferred();
+    const run = jest.fn(() => Promise.resolve());
+
+    queue.enqueue('blocker', 0, () => blocker.promise);
+    queue.enqueue('released', 1, run);
+
+    expect(queue.has('released')).toBe(true);
+    expect(queue.cancel('released')).toBe(true);
+    expect(queue.cancel('released')).toBe(false);
+
+    blocker.resolve();
+    await flush();
+
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  test('should remove requests rejected by a filter', () => {
+    const queue = new TileRequestQueue(1);
+    queue.enqueue('blocker', 0, () => new Promise(() => {}));
+    queue.enqueue('10:1:1', 1, () => Promise.resolve());
+    queue.enqueue('11:2:2', 1, () => Promise.resolve());
+
+    const removed = queue.filter((id) => id.startsWith('11:'));
+
+    expect(removed).toEqual(['10:1:1']);
+    expect(queue.pendingCount).toBe(1);
+  });
+
+  test('should keep going after a request fails', async () => {
+    const queue = new TileRequestQueue(1);
+    const run = jest.fn(() => Promise.resolve());
+
+    queue.enqueue('failing', 0, () => Promise.reject(new Error('boom')));
+    queue.enqueue('next', 1, run);
+    await flush();
+
+    expect(run).toHaveBeenCalled();
+    expect(queue.activeCount).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+// Mock the mapbox-vector-tile module to avoid ESM issues
+jest.mock('@mapbox/vector-tile', () => ({
+  VectorTile: jest.fn(() => ({ layers: { roads: mockRoadsLayer } })),
+  VectorTileFeature: jest.fn(),
+}));
+
+jest.mock('pbf', () => jest.fn());
+
+import { DecodedVectorTile, decodeVectorTile, packVectorTile } from '../../src/TileDecoder';
+import { TileWorkerClient, installTileWorker } from '../../src/TileWorker';
+import { TileLoadError } from '../../src/TileLoader';
+
+const mockRoadsLayer = {
+  length: 1,
+  feature: (): Record<string, unknown> => ({
+    type: 3,
+    id: 42,
+    extent: 4096,
+    properties: { class: 'primary' },
+    loadGeometry: (): { x: number; y: number }[][] => [
+      [
+        { x: 0, y: 0 },
+        { x: 2048, y: 0 },
+        { x: 2048, y: 2048 },
+        { x: 0, y: 2048 },
+        { x: 0, y: 0 },
+      ],
+    ],
+  }),
+};
+
+const createTile = (): ArrayBuffer => new Uint8Array([0x1a, 0x00]).buffer;
+
+/**
+ * Connect a client and a worker scope in the same thread
+ */
+const createWorkerPair = (): { worker: Worker; posted: any[] } => {
+  const workerListeners: ((event: MessageEvent) => void)[] = [];
+  const clientListeners: ((event: MessageEvent) => void)[] = [];
+  const posted: any[] = [];
+
+  installTileWorker({
+    postMessage: (message: unknown) => {
+      clientListeners.forEach((listener) => listener({ data: message } as MessageEvent));
+    },
+    addEventListener: (_type: 'message', listener: (event: MessageEvent) => void) => {
+      workerListeners.push(listener);
+    },
+  });
+
+  const worker = {
+    postMessage: (message: unknown) => {
+      posted.push(message);
+      workerListeners.forEach((listener) => listener({ data: message } as MessageEvent));
+    },
+    addEventListener: (_type: string, listener: (event: MessageEvent) => void) => {
+      clientListeners.push(listener);
+    },
+    removeEventListener: jest.fn(),
+    terminate: jest.fn(),
+  } as unknown as Worker;
+
+  return { worker, posted };
+};
+
+describe('TileDecoder', () => {
+  test('should pack layers with geometry projected to tile pixels', async () => {
+    const layers = packVectorTile(await decodeVectorTile(createTile()), 256);
+
+    expect(layers).toHaveLength(1);
+    expect(layers[0].name).toBe('roads');
+    expect(layers[0].extent).toBe(256);
+    expect(Array.from(layers[0].types)).toEqual([3]);
+    expect(Array.from(layers[0].coordinates)).toEqual([0, 0, 128, 0, 128, 128, 0, 128, 0, 0]);
+  });
+
+  test('should expose packed layers through the VectorTile interface', async () => {
+    const tile = new DecodedVectorTile(packVectorTile(await decodeVectorTile(createTile()), 256));
+    const feature = tile.layers.roads.feature(0);
+
+    expect(tile.layers.roads.length).toBe(1);
+    expect(feature.id).toBe(42);
+    expect(feature.extent).toBe(256);
+    expect(feature.properties).toEqual({ class: 'primary' });
+    expect(feature.loadGeometry()[0].map((point) => [point.x, point.y])).toEqual([
+      [0, 0],
+      [128, 0],
+      [128, 128],
+      [0, 128],
+      [0, 0],
+    ]);
+    expect(feature.bbox()).toEqual([0, 0, 128, 128]);
+    expect(feature.toGeoJSON(0, 0, 0).geometry.type).toBe('Polygon');
+  });
+});
+
+describe('TileWorkerClient', () => {
+  test('should decode tiles through the worker', async () => {
+    const { worker, posted } = createWorkerPair();
+    const client = new TileWorkerClient(worker);
+
+    const tile = await client.decode(createTile(), 512);
+
+    expect(posted[0]).toMatchObject({ type: 'decode', tileSize: 512 });
+    expect(tile.layers.roads.feature(0).loadGeometry()[0][2]).toEqual({ x: 256, y: 256 });
+  });
+
+  test('should fetch tiles in the worker and restore load errors', async () => {
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn().mockResolvedValue({ status: 503 }) as any;
+
+    try {
+      const client = new TileWorkerClient(createWorkerPair().worker);
+      const promise = client.load('https://tiles.com/1/0/0.pbf', { 'X-Api-Key': 'secret' }, 256);
+
+      await expect(promise).rejects.toBeInstanceOf(TileLoadError);
+      await expect(promise).rejects.toMatchObject({ status: 503 });
+      expect(global.fetch).toHaveBeenCalledWith('https://tiles.com/1/0/0.pbf', {
+        headers: { 'X-Api-Key': 'secret' },
+        signal: expect.any(AbortSignal),
+      });
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('should forward aborts to the worker', async () => {
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn(() => new Promise(() => {})) as any;
+
+    try {
+      const { worker, posted } = createWorkerPair();
+      const client = new TileWorkerClient(worker);
+      const controller = new AbortController();
+      const promise = client.load('https://tiles.com/1/0/0.pbf', {}, 256, controller.signal);
+
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(posted[1]).toEqual({ id: posted[0].id, type: 'abort' });
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
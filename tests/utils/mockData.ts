@@ -167,6 +167,7 @@ export function createMockCanvasContext(): CanvasRenderingContext2D {
     restore: jest.fn(),
     scale: jest.fn(),
     translate: jest.fn(),
+    setLineDash: jest.fn(),
     isPointInPath: jest.fn().mockReturnValue(true),
     canvas: {
       width: 256,